@@ -0,0 +1,76 @@
+// Service worker for offline play. The app shell (index.html and the build's
+// assets) is cached on install; pages are served network-first so updates show
+// up when there is signal, and fall back to the cached shell out on the course.
+// Scores live in IndexedDB.
+
+// Filled in at build time by the precache-manifest plugin in vite.config.ts. A new
+// build changes this file, so browsers install the new worker and its cache.
+const BUILD_VERSION = 'dev';
+const PRECACHE_URLS = [];
+
+const CACHE_NAME = `golf-tracker-shell-${BUILD_VERSION}`;
+const SHELL_URL = '/index.html';
+const STATIC_URLS = ['/', SHELL_URL, '/manifest.webmanifest', '/icons/icon-192.png', '/icons/icon-512.png'];
+
+// Weak signal shouldn't keep the page waiting when the cached shell can be shown
+const NAVIGATION_TIMEOUT_MS = 4000;
+
+// Navigation requests can't be given an abort signal, so the timeout races the fetch
+const fetchWithTimeout = (request, timeout) => Promise.race([
+  fetch(request),
+  new Promise((_, reject) => setTimeout(() => reject(new Error('Network timed out')), timeout)),
+]);
+
+self.addEventListener('install', event => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(CACHE_NAME);
+    await cache.addAll([...new Set([...STATIC_URLS, ...PRECACHE_URLS])]);
+    await self.skipWaiting();
+  })());
+});
+
+// Drop the caches of older builds, and with them their hashed assets
+self.addEventListener('activate', event => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names.filter(name => name !== CACHE_NAME).map(name => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  const url = new URL(request.url);
+  // Other origins (maps, the sync server) go straight to the network
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+  // Pages: network first, then the cached shell
+  if (request.mode === 'navigate') {
+    event.respondWith((async () => {
+      try {
+        const response = await fetchWithTimeout(request, NAVIGATION_TIMEOUT_MS);
+        if (response.ok) {
+          const cache = await caches.open(CACHE_NAME);
+          await cache.put(SHELL_URL, response.clone());
+        }
+        return response;
+      } catch {
+        return (await caches.match(SHELL_URL)) ?? Response.error();
+      }
+    })());
+    return;
+  }
+
+  // Everything else: cache first. Built assets have hashed names, so a cached copy is
+  // always current, and each build caches into its own cache.
+  event.respondWith((async () => {
+    const cached = await caches.match(request);
+    if (cached) return cached;
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(CACHE_NAME);
+      await cache.put(request, response.clone());
+    }
+    return response;
+  })());
+});
@@ -0,0 +1,167 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { readFile, rename, writeFile } from 'node:fs/promises';
+import { entitySchemas } from '../src/lib/schema';
+import { Round } from '../src/types/golf';
+import {
+  applySeasonPush,
+  createSeasonSpace,
+  getRecordsSince,
+  PushedChange,
+  SeasonSpace,
+  SeasonSummary,
+  SeasonSyncRequest,
+  SeasonSyncResponse,
+} from '../src/lib/remoteSync';
+
+// Self-hostable sync server for sharing seasons between devices. Start it with
+// `npm run sync-server` and point the app at it with VITE_SYNC_SERVER_URL.
+// Everything is kept in memory and saved to one JSON file after each push.
+//
+//   GET  /api/seasons              Revision of every season
+//   POST /api/seasons/:id/sync     Push changes, get back what changed since `since`
+
+const PORT = Number(process.env.PORT ?? 8787);
+const DATA_FILE = process.env.SYNC_DATA_FILE ?? 'sync-data.json';
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+// Season ids come from the URL, so any string must be a safe key
+let seasons = new Map<string, SeasonSpace>();
+
+const loadSeasons = async () => {
+  try {
+    seasons = new Map(Object.entries(JSON.parse(await readFile(DATA_FILE, 'utf8'))));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+  }
+};
+
+// Writes go through a temporary file so a crash mid-write can't corrupt the data
+let saving = Promise.resolve();
+const saveSeasons = () => {
+  saving = saving.then(async () => {
+    await writeFile(`${DATA_FILE}.tmp`, JSON.stringify(Object.fromEntries(seasons)));
+    await rename(`${DATA_FILE}.tmp`, DATA_FILE);
+  }).catch(error => {
+    console.error('Error saving sync data:', error);
+  });
+  return saving;
+};
+
+// The limit counts the bytes received, so the body is decoded only once it's all in
+const readBody = (request: IncomingMessage) => new Promise<string>((resolve, reject) => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  const onData = (chunk: Buffer) => {
+    chunks.push(chunk);
+    size += chunk.length;
+    if (size <= MAX_BODY_BYTES) return;
+    // Stop collecting; the rest of the upload is thrown away and the connection closed after the reply
+    request.off('data', onData);
+    request.resume();
+    reject(new HttpError(413, 'Request body is too large.'));
+  };
+  request.on('data', onData);
+  request.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+  request.on('error', reject);
+});
+
+// Rounds and the season record itself can only be pushed to their own season
+const belongsToOtherSeason = (change: PushedChange, seasonId: string) => {
+  if (change.store === 'seasons') return change.id !== seasonId;
+  if (change.store === 'rounds') return change.record !== undefined && (change.record as Round).seasonId !== seasonId;
+  return false;
+};
+
+const parseSyncRequest = (body: string, seasonId: string): SeasonSyncRequest => {
+  let parsed: Partial<SeasonSyncRequest>;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    throw new HttpError(400, 'The request is not valid JSON.');
+  }
+  if (typeof parsed?.deviceId !== 'string' || typeof parsed.since !== 'number' || !Array.isArray(parsed.changes)) {
+    throw new HttpError(400, 'Expected deviceId, since and changes.');
+  }
+
+  parsed.changes.forEach((change: unknown, index) => {
+    if (typeof change !== 'object' || change === null || Array.isArray(change)) {
+      throw new HttpError(400, `Change ${index} is not an object.`);
+    }
+    const { store, id, baseRevision, record } = change as PushedChange;
+    if (typeof store !== 'string' || !Object.hasOwn(entitySchemas, store)) {
+      throw new HttpError(400, `Change ${index} has an unknown store.`);
+    }
+    if (typeof id !== 'string' || typeof baseRevision !== 'number') {
+      throw new HttpError(400, `Invalid change for ${store}:${String(id)}.`);
+    }
+    if (record !== undefined && (record?.id !== id || !entitySchemas[store].safeParse(record).success)) {
+      throw new HttpError(400, `Invalid change for ${store}:${id}.`);
+    }
+    if (belongsToOtherSeason(change as PushedChange, seasonId)) {
+      throw new HttpError(400, `${store}:${id} belongs to another season.`);
+    }
+  });
+
+  return parsed as SeasonSyncRequest;
+};
+
+const sendJson = (response: ServerResponse, status: number, body: unknown) => {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body));
+};
+
+const handleRequest = async (request: IncomingMessage, response: ServerResponse) => {
+  // The app is served from another origin, e.g. the Vite dev server
+  response.setHeader('Access-Control-Allow-Origin', '*');
+  response.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  response.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  if (request.method === 'OPTIONS') {
+    response.writeHead(204);
+    response.end();
+    return;
+  }
+
+  const { pathname } = new URL(request.url ?? '/', 'http://localhost');
+  if (request.method === 'GET' && pathname === '/api/seasons') {
+    const summaries: SeasonSummary[] = [...seasons].map(([id, space]) => ({ id, revision: space.revision }));
+    sendJson(response, 200, summaries);
+    return;
+  }
+
+  const match = pathname.match(/^\/api\/seasons\/([^/]+)\/sync$/);
+  if (request.method === 'POST' && match) {
+    const seasonId = decodeURIComponent(match[1]);
+    const { deviceId, since, changes } = parseSyncRequest(await readBody(request), seasonId);
+
+    const space = applySeasonPush(seasons.get(seasonId) ?? createSeasonSpace(), changes);
+    if (changes.length > 0) {
+      seasons.set(seasonId, space);
+      await saveSeasons();
+      console.log(`${seasonId}: ${changes.length} change(s) from ${deviceId}, now at revision ${space.revision}`);
+    }
+
+    const body: SeasonSyncResponse = { revision: space.revision, records: getRecordsSince(space, since) };
+    sendJson(response, 200, body);
+    return;
+  }
+
+  throw new HttpError(404, 'Not found.');
+};
+
+await loadSeasons();
+createServer((request, response) => {
+  handleRequest(request, response).catch(error => {
+    const status = error instanceof HttpError ? error.status : 500;
+    if (status === 500) console.error('Error handling sync request:', error);
+    if (status === 413) response.setHeader('Connection', 'close');
+    sendJson(response, status, { error: error instanceof HttpError ? error.message : 'Internal server error.' });
+  });
+}).listen(PORT, () => {
+  console.log(`Golf Tracker sync server listening on http://localhost:${PORT} (data in ${DATA_FILE})`);
+});
@@ -11,6 +11,8 @@ import ContinueSeason from "./pages/ContinueSeason";
 import AddCourse from "./pages/AddCourse";
 import PlayRound from "./pages/PlayRound";
 import Statistics from "./pages/Statistics";
+import RoundDetail from "./pages/RoundDetail";
+import BackupRestore from "./pages/BackupRestore";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -30,7 +32,9 @@ const App = () => (
             <Route path="/continue-season/:seasonId" element={<ContinueSeason />} />
             <Route path="/add-course" element={<AddCourse />} />
             <Route path="/play" element={<PlayRound />} />
+            <Route path="/rounds/:roundId" element={<RoundDetail />} />
             <Route path="/stats" element={<Statistics />} />
+            <Route path="/backup" element={<BackupRestore />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
@@ -0,0 +1,19 @@
+import { ToastAction } from '@/components/ui/toast';
+import { useGolf } from '@/contexts/GolfContext';
+
+interface UndoToastActionProps {
+  commandId: string | undefined; // The undo entry the toast is about
+  altText: string;
+}
+
+// Undo button for a toast. Toasts stay up a while, so it only undoes its own
+// change and is disabled once something else has been done since.
+export function UndoToastAction({ commandId, altText }: UndoToastActionProps) {
+  const { lastCommandId, undo } = useGolf();
+
+  return (
+    <ToastAction altText={altText} disabled={!commandId || commandId !== lastCommandId} onClick={() => undo(commandId)}>
+      Undo
+    </ToastAction>
+  );
+}
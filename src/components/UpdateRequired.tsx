@@ -0,0 +1,30 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { AlertCircle, RefreshCw } from 'lucide-react';
+
+// Shown instead of the app when the saved data comes from a newer version of it.
+// Reloading fetches the latest version; until then nothing is saved.
+export function UpdateRequired() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background px-4">
+      <Card className="max-w-md w-full border-amber-200 bg-amber-50 dark:border-amber-900 dark:bg-amber-950/20">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-amber-800 dark:text-amber-200">
+            <AlertCircle className="w-5 h-5" />
+            Update Golf Tracker
+          </CardTitle>
+          <CardDescription className="text-amber-700 dark:text-amber-300">
+            Your data was saved by a newer version of the app. Update to the latest version to keep using it.
+            Nothing is changed until then.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button className="w-full" onClick={() => window.location.reload()}>
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Reload to update
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Plus, X } from 'lucide-react';
+import { CourseHole, DistanceUnit } from '@/types/golf';
+import { CourseLayout, createDefaultTee, getTotalPar, hasValidStrokeIndexes, PAR_OPTIONS } from '@/lib/courseHoles';
+
+interface HoleTableEditorProps {
+  layout: CourseLayout;
+  onChange: (layout: CourseLayout) => void;
+}
+
+const parseOptionalInt = (value: string) => {
+  const parsed = parseInt(value);
+  return Number.isNaN(parsed) ? undefined : parsed;
+};
+
+const parseOptionalFloat = (value: string) => {
+  const parsed = parseFloat(value);
+  return Number.isNaN(parsed) ? undefined : parsed;
+};
+
+export function HoleTableEditor({ layout, onChange }: HoleTableEditorProps) {
+  const updateHole = (number: number, updates: Partial<CourseHole>) => {
+    onChange({
+      ...layout,
+      holes: layout.holes.map(hole => hole.number === number ? { ...hole, ...updates } : hole),
+    });
+  };
+
+  const updateDistance = (hole: CourseHole, teeId: string, value: string) => {
+    const distance = parseOptionalInt(value);
+    const distances = { ...hole.distances };
+    if (distance === undefined) delete distances[teeId];
+    else distances[teeId] = distance;
+    updateHole(hole.number, { distances });
+  };
+
+  const renameTee = (teeId: string, name: string) => {
+    onChange({ ...layout, tees: layout.tees.map(tee => tee.id === teeId ? { ...tee, name } : tee) });
+  };
+
+  const addTee = () => {
+    onChange({ ...layout, tees: [...layout.tees, createDefaultTee(`Tee ${layout.tees.length + 1}`)] });
+  };
+
+  const removeTee = (teeId: string) => {
+    onChange({
+      ...layout,
+      tees: layout.tees.filter(tee => tee.id !== teeId),
+      holes: layout.holes.map(hole => {
+        const distances = { ...hole.distances };
+        delete distances[teeId];
+        return { ...hole, distances };
+      }),
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        <div className="flex-1 space-y-2">
+          <Label>Course Rating</Label>
+          <Input
+            type="number"
+            inputMode="decimal"
+            step="0.1"
+            placeholder="e.g. 71.8"
+            value={layout.courseRating ?? ''}
+            onChange={(e) => onChange({ ...layout, courseRating: parseOptionalFloat(e.target.value) })}
+            className="h-9"
+          />
+        </div>
+        <div className="flex-1 space-y-2">
+          <Label>Slope</Label>
+          <Input
+            type="number"
+            inputMode="numeric"
+            min={55}
+            max={155}
+            placeholder="e.g. 125"
+            value={layout.slopeRating ?? ''}
+            onChange={(e) => onChange({ ...layout, slopeRating: parseOptionalInt(e.target.value) })}
+            className="h-9"
+          />
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <div className="flex-1 space-y-2">
+          <Label>Tees</Label>
+          <div className="space-y-2">
+            {layout.tees.map(tee => (
+              <div key={tee.id} className="flex gap-2">
+                <Input
+                  value={tee.name}
+                  onChange={(e) => renameTee(tee.id, e.target.value)}
+                  placeholder="Tee name"
+                  className="h-9"
+                />
+                {layout.tees.length > 1 && (
+                  <Button variant="ghost" size="icon" className="h-9 w-9" onClick={() => removeTee(tee.id)}>
+                    <X className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+            <Button variant="outline" size="sm" onClick={addTee}>
+              <Plus className="w-4 h-4 mr-1" />
+              Add Tee
+            </Button>
+          </div>
+        </div>
+        <div className="w-28 space-y-2">
+          <Label>Unit</Label>
+          <Select
+            value={layout.distanceUnit}
+            onValueChange={(v) => onChange({ ...layout, distanceUnit: v as DistanceUnit })}
+          >
+            <SelectTrigger className="h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="yards">Yards</SelectItem>
+              <SelectItem value="meters">Meters</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-10">#</TableHead>
+              <TableHead className="w-20">Par</TableHead>
+              <TableHead className="w-16">SI</TableHead>
+              {layout.tees.map(tee => (
+                <TableHead key={tee.id} className="min-w-16">{tee.name || 'Tee'}</TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {layout.holes.map(hole => (
+              <TableRow key={hole.number}>
+                <TableCell className="font-medium">{hole.number}</TableCell>
+                <TableCell className="p-1">
+                  <Select
+                    value={hole.par.toString()}
+                    onValueChange={(v) => updateHole(hole.number, { par: parseInt(v) })}
+                  >
+                    <SelectTrigger className="h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PAR_OPTIONS.map(par => (
+                        <SelectItem key={par} value={par.toString()}>{par}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+                <TableCell className="p-1">
+                  <Input
+                    type="number"
+                    inputMode="numeric"
+                    min={1}
+                    max={layout.holes.length}
+                    value={hole.strokeIndex ?? ''}
+                    onChange={(e) => updateHole(hole.number, { strokeIndex: parseOptionalInt(e.target.value) })}
+                    className="h-8 px-2"
+                  />
+                </TableCell>
+                {layout.tees.map(tee => (
+                  <TableCell key={tee.id} className="p-1">
+                    <Input
+                      type="number"
+                      inputMode="numeric"
+                      min={0}
+                      value={hole.distances[tee.id] ?? ''}
+                      onChange={(e) => updateDistance(hole, tee.id, e.target.value)}
+                      className="h-8 px-2"
+                    />
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="flex justify-between text-sm text-muted-foreground">
+        <span>Total par {getTotalPar(layout.holes)}</span>
+        {!hasValidStrokeIndexes(layout.holes) && (
+          <span className="text-destructive">Stroke indexes must use each number 1–{layout.holes.length} once</span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+import { useEffect, useRef, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Loader2 } from 'lucide-react';
+import {
+  CoordinateInput,
+  formatCoordinates,
+  getMapProvider,
+  LatLng,
+  MapProvider,
+  MapView,
+  parseCoordinates,
+} from '@/lib/maps';
+
+export interface ManualCourseDetails extends CoordinateInput {
+  name: string;
+  address: string;
+}
+
+interface ManualCourseEntryProps {
+  value: ManualCourseDetails;
+  onChange: (value: ManualCourseDetails) => void;
+  provider?: MapProvider; // Defaults to the configured provider
+}
+
+// For courses the map search doesn't list. Only the name is needed; the position
+// can be typed in or picked by tapping the map, when the map loads.
+export function ManualCourseEntry({ value, onChange, provider = getMapProvider() }: ManualCourseEntryProps) {
+  const [mapState, setMapState] = useState<'loading' | 'ready' | 'failed'>('loading');
+  const mapRef = useRef<HTMLDivElement>(null);
+  const mapViewRef = useRef<MapView | null>(null);
+
+  // The map is created once, so picks go through a ref to see the latest value
+  const handlePickRef = useRef<(point: LatLng) => void>();
+  handlePickRef.current = (point) => onChange({ ...value, ...formatCoordinates(point) });
+
+  const update = (field: keyof ManualCourseDetails, fieldValue: string) => {
+    onChange({ ...value, [field]: fieldValue });
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    provider.load()
+      .then(() => {
+        if (!cancelled) setMapState('ready');
+      })
+      .catch((error) => {
+        console.error('Error loading the map:', error);
+        if (!cancelled) setMapState('failed');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [provider]);
+
+  useEffect(() => {
+    if (mapState !== 'ready' || !mapRef.current) return;
+
+    const view = provider.createMap(mapRef.current, point => handlePickRef.current?.(point));
+    mapViewRef.current = view;
+    return () => {
+      view.destroy();
+      mapViewRef.current = null;
+    };
+  }, [provider, mapState]);
+
+  const { coordinates, error } = parseCoordinates(value);
+  const lat = coordinates?.lat;
+  const lng = coordinates?.lng;
+
+  // The pin moves with the position only; its label is read from a ref when it does
+  const pinLabelRef = useRef({ name: value.name, address: value.address });
+  pinLabelRef.current = { name: value.name, address: value.address };
+
+  // Keep the pin on the typed or picked position
+  useEffect(() => {
+    if (lat === undefined || lng === undefined || mapState !== 'ready') return;
+    mapViewRef.current?.showLocation({ ...pinLabelRef.current, lat, lng });
+  }, [lat, lng, mapState]);
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="manual-course-name">Course Name</Label>
+        <Input
+          id="manual-course-name"
+          value={value.name}
+          onChange={(e) => update('name', e.target.value)}
+          placeholder="e.g., Riverside Pitch & Putt"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="manual-course-address">Address (optional)</Label>
+        <Input
+          id="manual-course-address"
+          value={value.address}
+          onChange={(e) => update('address', e.target.value)}
+          placeholder="Street, town"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label>Location (optional)</Label>
+        <div className="flex gap-2">
+          <Input
+            aria-label="Latitude"
+            inputMode="decimal"
+            value={value.lat}
+            onChange={(e) => update('lat', e.target.value)}
+            placeholder="Latitude"
+          />
+          <Input
+            aria-label="Longitude"
+            inputMode="decimal"
+            value={value.lng}
+            onChange={(e) => update('lng', e.target.value)}
+            placeholder="Longitude"
+          />
+        </div>
+        {error && <p className="text-xs text-destructive">{error}</p>}
+      </div>
+
+      {mapState === 'failed' ? (
+        <p className="text-xs text-muted-foreground text-center">
+          The map couldn't load, so type the coordinates in or leave them blank.
+        </p>
+      ) : (
+        <div className="space-y-1">
+          <div ref={mapRef} className="h-48 rounded-lg overflow-hidden border bg-muted">
+            {mapState === 'loading' && (
+              <div className="h-full flex items-center justify-center">
+                <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+              </div>
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground text-center">Tap the map to drop a pin on the course</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { GameFormat, StablefordTable } from '@/types/golf';
+import { STABLEFORD_TABLE_LABELS } from '@/lib/stableford';
+import { GAME_FORMAT_LABELS } from '@/lib/rounds';
+
+interface GameFormatSelectProps {
+  value: GameFormat;
+  onChange: (format: GameFormat) => void;
+  stablefordTable: StablefordTable;
+  onStablefordTableChange: (table: StablefordTable) => void;
+  nassauPresses: boolean;
+  onNassauPressesChange: (presses: boolean) => void;
+}
+
+const FORMATS: Array<{ value: GameFormat; label: string; description: string }> = [
+  { value: 'holes', label: GAME_FORMAT_LABELS.holes, description: 'Every hole winner scores a point, ties included' },
+  { value: 'skins', label: GAME_FORMAT_LABELS.skins, description: 'Tied holes carry their skin over to the next hole' },
+  { value: 'match', label: GAME_FORMAT_LABELS.match, description: 'Head-to-head between two players or teams, counted in holes up' },
+  { value: 'stableford', label: GAME_FORMAT_LABELS.stableford, description: 'Points for each hole from strokes against par, highest total wins' },
+  { value: 'wolf', label: GAME_FORMAT_LABELS.wolf, description: 'The wolf rotates each hole and picks a partner or goes it alone' },
+  { value: 'nassau', label: GAME_FORMAT_LABELS.nassau, description: 'Three matches between two sides: front nine, back nine and overall' },
+];
+
+export function GameFormatSelect({
+  value,
+  onChange,
+  stablefordTable,
+  onStablefordTableChange,
+  nassauPresses,
+  onNassauPressesChange,
+}: GameFormatSelectProps) {
+  return (
+    <div className="space-y-2">
+      <Label>Game Format</Label>
+      <Select value={value} onValueChange={(v) => onChange(v as GameFormat)}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {FORMATS.map(format => (
+            <SelectItem key={format.value} value={format.value}>
+              {format.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <p className="text-xs text-muted-foreground">
+        {FORMATS.find(format => format.value === value)?.description}
+      </p>
+      {value === 'stableford' && (
+        <Select value={stablefordTable} onValueChange={(v) => onStablefordTableChange(v as StablefordTable)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(STABLEFORD_TABLE_LABELS).map(([table, label]) => (
+              <SelectItem key={table} value={table}>{label} points</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      {value === 'nassau' && (
+        <div className="flex items-center justify-between pt-1">
+          <div>
+            <Label htmlFor="nassau-presses">Automatic presses</Label>
+            <p className="text-xs text-muted-foreground">Start a new bet when a side goes two down</p>
+          </div>
+          <Switch id="nassau-presses" checked={nassauPresses} onCheckedChange={onNassauPressesChange} />
+        </div>
+      )}
+    </div>
+  );
+}
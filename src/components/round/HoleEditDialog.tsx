@@ -0,0 +1,198 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Course, HoleResult, Player, Round } from '@/types/golf';
+import { getCourseHole, PAR_OPTIONS } from '@/lib/courseHoles';
+import { hasStrokes } from '@/lib/strokes';
+import { createHoleResult, isScrambleRound } from '@/lib/rounds';
+import { getWolfId } from '@/lib/wolf';
+
+interface HoleEditDialogProps {
+  round: Round;
+  course?: Course;
+  players: Player[];
+  holeNumber: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSave: (result: HoleResult, note: string) => void;
+}
+
+const LONE_WOLF = 'lone';
+
+// Corrects one hole of a round. Mount it with a key per hole so it starts from that hole's result.
+export function HoleEditDialog({ round, course, players, holeNumber, open, onOpenChange, onSave }: HoleEditDialogProps) {
+  const hole = round.holeResults.find(h => h.holeNumber === holeNumber);
+  const teams = round.teams?.length ? round.teams : undefined;
+  const isScramble = isScrambleRound(round);
+  const isStableford = round.format === 'stableford';
+  const wolfId = hole?.wolf?.wolfId ?? getWolfId(round, holeNumber);
+
+  const [useStrokes, setUseStrokes] = useState(
+    isStableford || (hole ? hasStrokes(hole) : round.holeResults.some(hasStrokes))
+  );
+  const [strokes, setStrokes] = useState<Record<string, number>>({ ...(isScramble ? hole?.teamStrokes : hole?.strokes) });
+  const [winners, setWinners] = useState<string[]>((teams ? hole?.winnerTeamIds : hole?.winnerIds) ?? []);
+  const [holeInOnes, setHoleInOnes] = useState<string[]>(hole?.holeInOnePlayerIds ?? []);
+  const [par, setPar] = useState(hole?.par ?? getCourseHole(course, holeNumber)?.par ?? 4);
+  const [wolfPartner, setWolfPartner] = useState(hole?.wolf ? hole.wolf.partnerId ?? LONE_WOLF : undefined);
+  const [note, setNote] = useState('');
+
+  const sides = teams ?? players;
+  const strokeSides = isScramble ? teams : players;
+
+  const toggle = (ids: string[], id: string) => ids.includes(id) ? ids.filter(i => i !== id) : [...ids, id];
+
+  const handleStrokesChange = (id: string, value: string) => {
+    const count = parseInt(value);
+    setStrokes(prev => {
+      const next = { ...prev };
+      if (Number.isNaN(count) || count <= 0) delete next[id];
+      else next[id] = count;
+      return next;
+    });
+  };
+
+  const handleSave = () => {
+    onSave(createHoleResult(round, course, {
+      holeNumber,
+      winners,
+      strokes: useStrokes ? strokes : undefined,
+      holeInOnePlayerIds: holeInOnes,
+      par: isStableford ? par : undefined,
+      wolf: round.format === 'wolf' && wolfPartner
+        ? { wolfId, partnerId: wolfPartner === LONE_WOLF ? undefined : wolfPartner }
+        : undefined,
+    }), note);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Correct hole {holeNumber}</DialogTitle>
+          <DialogDescription>Points, winners and statistics update from the corrected result</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {!isStableford && (
+            <div className="flex items-center justify-between">
+              <Label htmlFor="edit-strokes">Enter strokes</Label>
+              <Switch id="edit-strokes" checked={useStrokes} onCheckedChange={setUseStrokes} />
+            </div>
+          )}
+
+          {isStableford && (
+            <div className="flex items-center gap-2">
+              <Label>Par</Label>
+              <Select value={par.toString()} onValueChange={(v) => setPar(parseInt(v))}>
+                <SelectTrigger className="w-20 h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PAR_OPTIONS.map(option => (
+                    <SelectItem key={option} value={option.toString()}>{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {round.format === 'wolf' && (
+            <div className="space-y-2">
+              <Label>{players.find(p => p.id === wolfId)?.name ?? 'Wolf'}'s partner</Label>
+              <Select value={wolfPartner} onValueChange={setWolfPartner}>
+                <SelectTrigger>
+                  <SelectValue placeholder="No choice recorded" />
+                </SelectTrigger>
+                <SelectContent>
+                  {players.filter(p => p.id !== wolfId).map(player => (
+                    <SelectItem key={player.id} value={player.id}>{player.name}</SelectItem>
+                  ))}
+                  <SelectItem value={LONE_WOLF}>Lone wolf</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {useStrokes ? (
+            <div className="space-y-2">
+              {strokeSides.map(side => (
+                <div key={side.id} className="flex items-center justify-between gap-3">
+                  <Label htmlFor={`strokes-${side.id}`}>{side.name}</Label>
+                  <Input
+                    id={`strokes-${side.id}`}
+                    type="number"
+                    inputMode="numeric"
+                    min={1}
+                    className="w-20 h-9"
+                    value={strokes[side.id] ?? ''}
+                    onChange={(e) => handleStrokesChange(side.id, e.target.value)}
+                  />
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label>Hole winners</Label>
+              {sides.map(side => (
+                <label key={side.id} className="flex items-center gap-3 text-sm">
+                  <Checkbox
+                    checked={winners.includes(side.id)}
+                    onCheckedChange={() => setWinners(prev => toggle(prev, side.id))}
+                  />
+                  {side.name}
+                </label>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Hole in one</Label>
+            {players.map(player => (
+              <label key={player.id} className="flex items-center gap-3 text-sm">
+                <Checkbox
+                  checked={holeInOnes.includes(player.id)}
+                  onCheckedChange={() => setHoleInOnes(prev => toggle(prev, player.id))}
+                />
+                {player.name}
+              </label>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="correction-note">Reason (optional)</Label>
+            <Input
+              id="correction-note"
+              placeholder="e.g. Scorecard mix-up"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave}>Save Correction</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
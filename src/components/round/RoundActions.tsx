@@ -0,0 +1,127 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Ban, MoreVertical, RotateCcw, Trash2 } from 'lucide-react';
+import { Round } from '@/types/golf';
+import { isRoundInProgress } from '@/lib/rounds';
+
+interface RoundActionsProps {
+  round: Round;
+  onDelete: () => void;
+  onAbandon: (reason: string) => void;
+  onReopen: () => void;
+}
+
+// Per-round menu: abandon a round in progress, reopen a finished or abandoned one, or delete it
+export function RoundActions({ round, onDelete, onAbandon, onReopen }: RoundActionsProps) {
+  const [abandonOpen, setAbandonOpen] = useState(false);
+  const [deleteOpen, setDeleteOpen] = useState(false);
+  const [reason, setReason] = useState('');
+
+  return (
+    // Keep clicks inside the menu and dialogs from opening the round
+    <div onClick={(e) => e.stopPropagation()}>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon" className="h-8 w-8">
+            <MoreVertical className="w-4 h-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          {isRoundInProgress(round) ? (
+            <DropdownMenuItem onClick={() => setAbandonOpen(true)}>
+              <Ban className="w-4 h-4 mr-2" />
+              Abandon
+            </DropdownMenuItem>
+          ) : (
+            <DropdownMenuItem onClick={onReopen}>
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Reopen
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem className="text-destructive focus:text-destructive" onClick={() => setDeleteOpen(true)}>
+            <Trash2 className="w-4 h-4 mr-2" />
+            Delete
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={abandonOpen} onOpenChange={setAbandonOpen}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Abandon Round?</DialogTitle>
+            <DialogDescription>
+              The round stays in the season's history but won't count towards standings. You can reopen it later.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="abandon-reason">Reason (optional)</Label>
+            <Input
+              id="abandon-reason"
+              placeholder="e.g. Rained off"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAbandonOpen(false)}>Cancel</Button>
+            <Button
+              onClick={() => {
+                onAbandon(reason);
+                setAbandonOpen(false);
+                setReason('');
+              }}
+            >
+              Abandon
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={deleteOpen} onOpenChange={setDeleteOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Round?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This removes the round and its {round.holeResults.length} recorded holes. You can undo this right after deleting.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={onDelete}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Fragment } from 'react';
+import { Star } from 'lucide-react';
+import { Course, Round } from '@/types/golf';
+import { getCourseHole } from '@/lib/courseHoles';
+import { getRoundGrossScores } from '@/lib/strokes';
+import { formatPoints } from '@/lib/scoring';
+import { getRunningTotals, getScorecardSections, getScorecardTotals } from '@/lib/scorecard';
+
+interface ScorecardProps {
+  round: Round;
+  course?: Course;
+  columns: Array<{ id: string; name: string }>; // Players, or teams in a scramble
+  holeCount: number;
+  points?: Record<string, number>; // Round points per column
+  currentHole?: number; // Highlighted while the round is being played
+  showRunningTotals?: boolean;
+  onHoleClick?: (holeNumber: number) => void;
+}
+
+// Hole-by-hole grid: strokes where recorded, a dot for winners without strokes.
+// 18-hole rounds get out and in subtotals; running totals are strokes, or holes won.
+export function Scorecard({
+  round,
+  course,
+  columns,
+  holeCount,
+  points,
+  currentHole,
+  showRunningTotals,
+  onHoleClick,
+}: ScorecardProps) {
+  const grossScores = getRoundGrossScores(round);
+  const hasStrokes = Object.keys(grossScores).length > 0;
+  const columnIds = columns.map(column => column.id);
+  const sections = getScorecardSections(holeCount);
+  const runningTotals = showRunningTotals ? getRunningTotals(round, columnIds) : {};
+
+  return (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-10">#</TableHead>
+            <TableHead className="w-10">Par</TableHead>
+            {columns.map(column => (
+              <TableHead key={column.id} className="text-center max-w-20 truncate">{column.name}</TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {sections.map(section => {
+            const subtotals = getScorecardTotals(round, columnIds, section.startHole, section.endHole);
+            return (
+              <Fragment key={section.label}>
+                {Array.from({ length: section.endHole - section.startHole + 1 }, (_, i) => section.startHole + i).map(holeNumber => {
+                  const hole = round.holeResults.find(h => h.holeNumber === holeNumber);
+                  const strokes = { ...hole?.strokes, ...hole?.teamStrokes };
+                  const isCurrent = holeNumber === currentHole;
+                  return (
+                    <TableRow
+                      key={holeNumber}
+                      className={`${onHoleClick ? 'cursor-pointer' : ''} ${isCurrent ? 'bg-muted' : ''}`}
+                      onClick={() => onHoleClick?.(holeNumber)}
+                    >
+                      <TableCell className={`font-medium ${isCurrent ? 'text-primary' : ''}`}>{holeNumber}</TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {getCourseHole(course, holeNumber)?.par ?? hole?.par ?? ''}
+                      </TableCell>
+                      {columns.map(column => {
+                        const won = !!hole && (hole.winnerIds.includes(column.id) || !!hole.winnerTeamIds?.includes(column.id));
+                        const runningTotal = runningTotals[holeNumber]?.[column.id];
+                        return (
+                          <TableCell
+                            key={column.id}
+                            className={`text-center ${won ? 'bg-primary/10 font-bold text-primary' : ''}`}
+                          >
+                            <span className="inline-flex items-center gap-0.5">
+                              {strokes[column.id] ?? (won ? '●' : '')}
+                              {hole?.holeInOnePlayerIds.includes(column.id) && <Star className="w-3 h-3 text-amber-500" />}
+                            </span>
+                            {runningTotal !== undefined && (
+                              <span className="block text-[10px] font-normal text-muted-foreground">{runningTotal}</span>
+                            )}
+                          </TableCell>
+                        );
+                      })}
+                    </TableRow>
+                  );
+                })}
+                {sections.length > 1 && (
+                  <TableRow className="bg-muted/50 font-medium">
+                    <TableCell colSpan={2}>{section.label}</TableCell>
+                    {columns.map(column => (
+                      <TableCell key={column.id} className="text-center">{subtotals[column.id]}</TableCell>
+                    ))}
+                  </TableRow>
+                )}
+              </Fragment>
+            );
+          })}
+        </TableBody>
+        <TableFooter>
+          {hasStrokes && (
+            <TableRow>
+              <TableCell colSpan={2}>Strokes</TableCell>
+              {columns.map(column => (
+                <TableCell key={column.id} className="text-center">{grossScores[column.id]?.strokes ?? ''}</TableCell>
+              ))}
+            </TableRow>
+          )}
+          {points && (
+            <TableRow>
+              <TableCell colSpan={2}>Points</TableCell>
+              {columns.map(column => (
+                <TableCell key={column.id} className="text-center font-bold">{formatPoints(points[column.id] ?? 0)}</TableCell>
+              ))}
+            </TableRow>
+          )}
+        </TableFooter>
+      </Table>
+    </div>
+  );
+}
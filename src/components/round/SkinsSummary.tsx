@@ -0,0 +1,28 @@
+import { Badge } from '@/components/ui/badge';
+import { SkinsResult } from '@/lib/skins';
+
+interface SkinsSummaryProps {
+  sides: Array<{ id: string; name: string }>; // Players, or teams in a team round
+  result: SkinsResult;
+}
+
+export function SkinsSummary({ sides, result }: SkinsSummaryProps) {
+  const ranked = [...sides].sort((a, b) => (result.skins[b.id] ?? 0) - (result.skins[a.id] ?? 0));
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-2">
+        {ranked.map(side => (
+          <Badge key={side.id} variant={result.skins[side.id] ? 'default' : 'secondary'}>
+            {side.name}: {result.skins[side.id] ?? 0}
+          </Badge>
+        ))}
+      </div>
+      {result.carryOver > 0 && (
+        <p className="text-xs text-muted-foreground">
+          {result.carryOver} skin{result.carryOver !== 1 ? 's' : ''} carried over, not yet won
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Minus, Plus } from 'lucide-react';
+import { Player } from '@/types/golf';
+import { GrossScore } from '@/lib/strokes';
+
+interface StrokeEntryProps {
+  players: Pick<Player, 'id' | 'name' | 'avatar'>[]; // Players, or teams in a scramble
+  strokes: Record<string, number>;
+  winnerIds: string[];
+  grossScores: Record<string, GrossScore>;
+  par?: number;
+  strokesReceived?: Record<string, number>; // Handicap strokes on this hole (net scoring)
+  netScores?: Record<string, GrossScore>;
+  points?: Record<string, number>; // Running Stableford points
+  onStrokesChange: (playerId: string, strokes: number | undefined) => void;
+}
+
+const getInitials = (name: string) => {
+  return name.split(' ').map(n => n[0]).join('').toUpperCase().slice(0, 2);
+};
+
+export function StrokeEntry({
+  players,
+  strokes,
+  winnerIds,
+  grossScores,
+  par,
+  strokesReceived,
+  netScores,
+  points,
+  onStrokesChange,
+}: StrokeEntryProps) {
+  const adjust = (playerId: string, delta: number) => {
+    // The first tap starts from par when the hole has one
+    const current = strokes[playerId];
+    const next = current === undefined && par ? par : (current ?? 0) + delta;
+    onStrokesChange(playerId, next > 0 ? next : undefined);
+  };
+
+  return (
+    <div className="space-y-2">
+      {players.map(player => (
+        <div
+          key={player.id}
+          className={`flex items-center justify-between p-3 rounded-lg border transition-colors ${
+            winnerIds.includes(player.id) ? 'bg-primary/10 border-primary' : ''
+          }`}
+        >
+          <div className="flex items-center gap-3 min-w-0">
+            <Avatar className="h-8 w-8">
+              <AvatarImage src={player.avatar} alt={player.name} />
+              <AvatarFallback className="bg-primary/10 text-primary text-xs">
+                {getInitials(player.name)}
+              </AvatarFallback>
+            </Avatar>
+            <div className="min-w-0">
+              <span className="font-medium">{player.name}</span>
+              {winnerIds.includes(player.id) && (
+                <Badge variant="secondary" className="ml-2 text-xs">
+                  Low
+                </Badge>
+              )}
+              <p className="text-xs text-muted-foreground">
+                {grossScores[player.id]?.strokes ?? 0} strokes total
+                {netScores && ` · ${netScores[player.id]?.strokes ?? 0} net`}
+                {points && ` · ${points[player.id] ?? 0} pts`}
+                {!!strokesReceived?.[player.id] && (
+                  ` · ${strokesReceived[player.id] > 0 ? '+' : ''}${strokesReceived[player.id]} this hole`
+                )}
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="icon"
+              className="h-8 w-8"
+              disabled={!strokes[player.id]}
+              onClick={() => adjust(player.id, -1)}
+            >
+              <Minus className="w-4 h-4" />
+            </Button>
+            <span className="w-6 text-center text-lg font-bold">
+              {strokes[player.id] ?? '–'}
+            </span>
+            <Button
+              variant="outline"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => adjust(player.id, 1)}
+            >
+              <Plus className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Player, Team, TeamFormat } from '@/types/golf';
+import { createTeams, getPlayerTeam } from '@/lib/teams';
+
+interface TeamSetupProps {
+  players: Player[];
+  teams: Team[] | undefined; // Undefined for individual play
+  teamFormat: TeamFormat;
+  onTeamsChange: (teams: Team[] | undefined) => void;
+  onTeamFormatChange: (format: TeamFormat) => void;
+}
+
+export function TeamSetup({ players, teams, teamFormat, onTeamsChange, onTeamFormatChange }: TeamSetupProps) {
+  const playerIds = players.map(p => p.id);
+  const maxTeams = Math.max(2, Math.min(4, players.length));
+
+  const assignPlayer = (playerId: string, teamId: string) => {
+    if (!teams) return;
+    onTeamsChange(teams.map(team => ({
+      ...team,
+      playerIds: team.id === teamId
+        ? [...team.playerIds.filter(id => id !== playerId), playerId]
+        : team.playerIds.filter(id => id !== playerId),
+    })));
+  };
+
+  const renameTeam = (teamId: string, name: string) => {
+    if (!teams) return;
+    onTeamsChange(teams.map(team => team.id === teamId ? { ...team, name } : team));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <Label htmlFor="team-play">Team play</Label>
+          <p className="text-xs text-muted-foreground">Record hole results per team</p>
+        </div>
+        <Switch
+          id="team-play"
+          checked={!!teams}
+          disabled={players.length < 2}
+          onCheckedChange={(checked) => onTeamsChange(checked ? createTeams(playerIds, 2) : undefined)}
+        />
+      </div>
+
+      {teams && (
+        <div className="space-y-3">
+          <div className="flex gap-2">
+            <div className="flex-1 space-y-2">
+              <Label>Team Format</Label>
+              <Select value={teamFormat} onValueChange={(v) => onTeamFormatChange(v as TeamFormat)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="betterBall">Better Ball</SelectItem>
+                  <SelectItem value="scramble">Scramble</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="w-24 space-y-2">
+              <Label>Teams</Label>
+              <Select
+                value={teams.length.toString()}
+                onValueChange={(v) => onTeamsChange(createTeams(playerIds, parseInt(v)))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Array.from({ length: maxTeams - 1 }, (_, i) => i + 2).map(count => (
+                    <SelectItem key={count} value={count.toString()}>{count}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            {teams.map(team => (
+              <Input
+                key={team.id}
+                value={team.name}
+                onChange={(e) => renameTeam(team.id, e.target.value)}
+                placeholder="Team name"
+                className="h-9"
+              />
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            {players.map(player => (
+              <div key={player.id} className="flex items-center justify-between gap-2">
+                <span className="text-sm font-medium truncate">{player.name}</span>
+                <Select
+                  value={getPlayerTeam(teams, player.id)?.id ?? ''}
+                  onValueChange={(teamId) => assignPlayer(player.id, teamId)}
+                >
+                  <SelectTrigger className="w-36 h-9">
+                    <SelectValue placeholder="Pick team" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {teams.map(team => (
+                      <SelectItem key={team.id} value={team.id}>{team.name || 'Unnamed team'}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ArrowRight, Wallet } from 'lucide-react';
+import { format } from 'date-fns';
+import { Course, Player, Round } from '@/types/golf';
+import { formatMoney, getLedger, getLedgerBalances, getSettleUpTransfers, Transfer } from '@/lib/ledger';
+
+interface SideBetsLedgerProps {
+  players: Player[];
+  courses: Course[];
+  rounds: Round[]; // The season's rounds
+}
+
+export function SideBetsLedger({ players, courses, rounds }: SideBetsLedgerProps) {
+  const ledger = getLedger(rounds);
+  if (ledger.length === 0) return null;
+
+  const balances = getLedgerBalances(ledger);
+  const transfers = getSettleUpTransfers(balances);
+  const getName = (playerId: string) => players.find(p => p.id === playerId)?.name ?? 'Unknown';
+
+  const renderTransfer = (transfer: Transfer) => (
+    <div key={`${transfer.fromId}-${transfer.toId}`} className="flex items-center gap-2 text-sm">
+      <span>{getName(transfer.fromId)}</span>
+      <ArrowRight className="w-3 h-3 text-muted-foreground" />
+      <span>{getName(transfer.toId)}</span>
+      <span className="ml-auto font-medium">{transfer.amount.toFixed(2)}</span>
+    </div>
+  );
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Wallet className="w-5 h-5 text-primary" />
+          Side Bets
+        </CardTitle>
+        <CardDescription>Running balances over {ledger.length} completed round{ledger.length !== 1 ? 's' : ''}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-1">
+          {Object.entries(balances)
+            .sort(([, a], [, b]) => b - a)
+            .map(([playerId, balance]) => (
+              <div key={playerId} className="flex items-center justify-between text-sm">
+                <span>{getName(playerId)}</span>
+                <span className={`font-bold ${balance < 0 ? 'text-destructive' : ''}`}>{formatMoney(balance)}</span>
+              </div>
+            ))}
+        </div>
+
+        <div className="space-y-1 pt-3 border-t">
+          <p className="text-sm font-medium">Settle up</p>
+          {transfers.length === 0
+            ? <p className="text-sm text-muted-foreground">Everyone is square</p>
+            : transfers.map(renderTransfer)}
+        </div>
+
+        <div className="space-y-3 pt-3 border-t">
+          <p className="text-sm font-medium">By round</p>
+          {[...ledger].reverse().map(entry => (
+            <div key={entry.roundId} className="space-y-1">
+              <p className="text-xs text-muted-foreground">
+                {courses.find(c => c.id === entry.courseId)?.name ?? 'Unknown Course'} • {format(new Date(entry.date), 'MMM d, yyyy')}
+              </p>
+              {getSettleUpTransfers(entry.amounts).map(renderTransfer)}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,5 +1,6 @@
 import React, { createContext, useContext, ReactNode } from 'react';
 import { useGolfData } from '@/hooks/useGolfData';
+import { UpdateRequired } from '@/components/UpdateRequired';
 
 type GolfContextType = ReturnType<typeof useGolfData>;
 
@@ -8,6 +9,9 @@ const GolfContext = createContext<GolfContextType | undefined>(undefined);
 export function GolfProvider({ children }: { children: ReactNode }) {
   const golfData = useGolfData();
 
+  // Data from a newer version of the app can't be shown or safely edited here
+  if (golfData.newerSchemaVersion !== undefined) return <UpdateRequired />;
+
   return (
     <GolfContext.Provider value={golfData}>
       {children}
@@ -1,70 +1,305 @@
-import { useState, useEffect, useCallback } from 'react';
-import { Player, Season, Course, Round } from '@/types/golf';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Player, Season, Course, Round, HoleResult, GolfData, GameFormat, ScoringRules, Team, TeamFormat, MatchResult, NassauSettings, RoundCorrection, StablefordTable, Stakes } from '@/types/golf';
+import { clearQuarantine, createEmptyData, loadGolfData, persistStoreChanges, readMeta, STORE_NAMES, writeMeta } from '@/lib/storage';
+import { QuarantinedRecord } from '@/lib/schema';
+import { NewerSchemaVersionError } from '@/lib/migrations';
+import { CourseLayout } from '@/lib/courseHoles';
+import { calculateCourseHandicap, getHandicapIndexes } from '@/lib/handicap';
+import { DEFAULT_SCORING_RULES } from '@/lib/scoring';
+import { getMatchResult, getMatchStatus } from '@/lib/matchPlay';
+import { getRoundHoleCount, isHoleResultChanged } from '@/lib/rounds';
+import {
+  applyChanges,
+  applyCommand,
+  diffData,
+  forgetRecords,
+  HistoryState,
+  keepUnchangedRecords,
+  loadHistory,
+  pushCommand,
+  saveHistory,
+} from '@/lib/history';
+import { createSyncMessage, getRecordKey, getWinningChanges, openSyncChannel, SyncStamp } from '@/lib/sync';
+import { getRemoteKey } from '@/lib/remoteSync';
+import {
+  acquireSyncLock,
+  finishRemoteSync,
+  getRemoteChanges,
+  loadRemoteSyncState,
+  queueChanges,
+  RemoteSyncState,
+  RemoteSyncStatus,
+  runRemoteSync,
+  saveRemoteSyncState,
+  SYNC_SERVER_URL,
+} from '@/lib/syncClient';
 
-const STORAGE_KEYS = {
-  players: 'golf-tracker-players',
-  seasons: 'golf-tracker-seasons',
-  courses: 'golf-tracker-courses',
-  rounds: 'golf-tracker-rounds',
-};
+const REMOTE_SYNC_INTERVAL_MS = 10_000;
+
+// Hole each round is on, by round id. Kept per device, outside the synced round
+// records, so moving between holes doesn't move other devices and tabs along.
+const CURRENT_HOLES_KEY = 'currentHoles';
+
+export interface RoundOptions {
+  netScoring?: boolean;
+  format?: GameFormat;
+  teams?: Team[];
+  teamFormat?: TeamFormat;
+  stablefordTable?: StablefordTable;
+  nassau?: NassauSettings;
+  holeCount?: number; // Defaults to the course's holes
+}
 
 export function useGolfData() {
-  const [players, setPlayers] = useState<Player[]>([]);
-  const [seasons, setSeasons] = useState<Season[]>([]);
-  const [courses, setCourses] = useState<Course[]>([]);
-  const [rounds, setRounds] = useState<Round[]>([]);
+  const [data, setData] = useState<GolfData>(createEmptyData);
+  const [history, setHistory] = useState<HistoryState>(loadHistory);
+  const [quarantine, setQuarantine] = useState<QuarantinedRecord[]>([]);
+  const [currentHoles, setCurrentHoles] = useState<Record<string, number>>({});
   const [isLoading, setIsLoading] = useState(true);
 
-  // Load data from localStorage
+  // Set when the stored data comes from a newer version of the app. Nothing is written
+  // until the app is updated, so the newer data can't be overwritten.
+  const [newerSchemaVersion, setNewerSchemaVersion] = useState<number>();
+  const isReadOnly = newerSchemaVersion !== undefined;
+
+  // Refs mirror the latest state so several mutations in one event build on each other
+  const dataRef = useRef(data);
+  const historyRef = useRef(history);
+  const currentHolesRef = useRef(currentHoles);
+
+  // Last state written to IndexedDB, used to write only changed records
+  const persistedRef = useRef<GolfData>(createEmptyData());
+
+  // Other open tabs, and the last write this tab knows of for each record
+  const syncChannelRef = useRef<BroadcastChannel | null>(null);
+  const syncStampsRef = useRef(new Map<string, SyncStamp>());
+
+  // Other devices, through the sync server when one is configured. Records just
+  // pulled from the server are skipped when queueing local changes.
+  const [remoteSyncStatus, setRemoteSyncStatus] = useState<RemoteSyncStatus>(SYNC_SERVER_URL ? 'syncing' : 'off');
+  const [pendingSyncChanges, setPendingSyncChanges] = useState(0);
+  const remoteSyncRef = useRef<RemoteSyncState | null>(null);
+  const remoteKeysRef = useRef(new Set<string>());
+  const syncNowRef = useRef(() => {});
+
+  const updateData = useCallback((next: GolfData) => {
+    dataRef.current = next;
+    setData(next);
+  }, []);
+
+  const updateHistory = useCallback((next: HistoryState) => {
+    historyRef.current = next;
+    setHistory(next);
+  }, []);
+
+  const updateRemoteSync = useCallback((next: RemoteSyncState) => {
+    remoteSyncRef.current = next;
+    setPendingSyncChanges(next.queue.length);
+    saveRemoteSyncState(next).catch(error => {
+      console.error('Error saving the sync queue to IndexedDB:', error);
+    });
+  }, []);
+
+  // Load data from IndexedDB (migrating legacy localStorage data on first run)
+  useEffect(() => {
+    Promise.all([loadGolfData(), readMeta<Record<string, number>>(CURRENT_HOLES_KEY)])
+      .then(([{ data, quarantine }, storedHoles]) => {
+        persistedRef.current = data;
+        updateData(data);
+        setQuarantine(quarantine);
+        // Rounds deleted since are dropped
+        const holes = Object.fromEntries(
+          Object.entries(storedHoles ?? {}).filter(([roundId]) => data.rounds.some(r => r.id === roundId))
+        );
+        currentHolesRef.current = holes;
+        setCurrentHoles(holes);
+      })
+      .catch(error => {
+        console.error('Error loading data from IndexedDB:', error);
+        if (error instanceof NewerSchemaVersionError) setNewerSchemaVersion(error.storedVersion);
+      })
+      .finally(() => {
+        setIsLoading(false);
+      });
+  }, [updateData]);
+
+  // Apply records written by other tabs. They are already persisted, and this tab's
+  // undo history forgets them so undoing can't bring back a stale copy. The tab that
+  // syncs with the server queues them like its own changes.
+  useEffect(() => {
+    if (isLoading || isReadOnly) return;
+
+    const channel = openSyncChannel(message => {
+      const changes = getWinningChanges(message, syncStampsRef.current);
+      if (changes.length === 0) return;
+
+      const stamp = { at: message.at, tabId: message.tabId };
+      changes.forEach(change => syncStampsRef.current.set(getRecordKey(change), stamp));
+      const prev = persistedRef.current;
+      persistedRef.current = applyChanges(prev, changes);
+      updateData(applyChanges(dataRef.current, changes));
+      updateHistory(forgetRecords(historyRef.current, changes));
+      if (remoteSyncRef.current) {
+        updateRemoteSync(queueChanges(remoteSyncRef.current, diffData(prev, persistedRef.current), persistedRef.current));
+        syncNowRef.current();
+      }
+    });
+    syncChannelRef.current = channel;
+    return () => {
+      channel?.close();
+      syncChannelRef.current = null;
+    };
+  }, [isLoading, isReadOnly, updateData, updateHistory, updateRemoteSync]);
+
+  // Push queued changes and pull other devices' changes, now and then, and when back online.
+  // Pulled records are persisted like local edits but not queued to be pushed back.
+  // Only the tab holding the sync lock does this; the queue is loaded once it has it.
   useEffect(() => {
-    const loadData = () => {
+    if (isLoading || isReadOnly || !SYNC_SERVER_URL) return;
+
+    let running = false;
+    let stopped = false;
+    const sync = async () => {
+      if (running || !remoteSyncRef.current) return;
+      running = true;
+      setRemoteSyncStatus('syncing');
       try {
-        const storedPlayers = localStorage.getItem(STORAGE_KEYS.players);
-        const storedSeasons = localStorage.getItem(STORAGE_KEYS.seasons);
-        const storedCourses = localStorage.getItem(STORAGE_KEYS.courses);
-        const storedRounds = localStorage.getItem(STORAGE_KEYS.rounds);
-
-        if (storedPlayers) setPlayers(JSON.parse(storedPlayers));
-        if (storedSeasons) setSeasons(JSON.parse(storedSeasons));
-        if (storedCourses) setCourses(JSON.parse(storedCourses));
-        if (storedRounds) setRounds(JSON.parse(storedRounds));
+        const result = await runRemoteSync(remoteSyncRef.current, dataRef.current);
+        if (stopped || !remoteSyncRef.current) return; // The lock was given up meanwhile
+        const finished = finishRemoteSync(remoteSyncRef.current, result, dataRef.current);
+        const changes = getRemoteChanges(result.records, finished, dataRef.current);
+        if (changes.length > 0) {
+          changes.forEach(change => remoteKeysRef.current.add(getRemoteKey(change)));
+          updateData(applyChanges(dataRef.current, changes));
+          updateHistory(forgetRecords(historyRef.current, changes));
+        }
+        updateRemoteSync(finished);
+        setRemoteSyncStatus('synced');
       } catch (error) {
-        console.error('Error loading data from localStorage:', error);
+        console.error('Error syncing with the sync server:', error);
+        setRemoteSyncStatus('offline');
       } finally {
-        setIsLoading(false);
+        running = false;
       }
     };
 
-    loadData();
-  }, []);
+    let interval: number | undefined;
+    const releaseLock = acquireSyncLock(() => {
+      loadRemoteSyncState()
+        .then(state => {
+          if (stopped) return;
+          remoteSyncRef.current = state;
+          setPendingSyncChanges(state.queue.length);
+          syncNowRef.current = () => void sync();
+          sync();
+          interval = window.setInterval(sync, REMOTE_SYNC_INTERVAL_MS);
+          window.addEventListener('online', sync);
+        })
+        .catch(error => {
+          console.error('Error loading the sync queue from IndexedDB:', error);
+          setRemoteSyncStatus('offline');
+        });
+    }, () => setRemoteSyncStatus('otherTab'));
+    return () => {
+      stopped = true;
+      releaseLock();
+      window.clearInterval(interval);
+      window.removeEventListener('online', sync);
+      remoteSyncRef.current = null;
+      syncNowRef.current = () => {};
+    };
+  }, [isLoading, isReadOnly, updateData, updateHistory, updateRemoteSync]);
 
-  // Persist players
+  // Persist changed records and share them with other tabs and devices
   useEffect(() => {
-    if (!isLoading) {
-      localStorage.setItem(STORAGE_KEYS.players, JSON.stringify(players));
-    }
-  }, [players, isLoading]);
+    if (isLoading || isReadOnly) return;
 
-  // Persist seasons
-  useEffect(() => {
-    if (!isLoading) {
-      localStorage.setItem(STORAGE_KEYS.seasons, JSON.stringify(seasons));
-    }
-  }, [seasons, isLoading]);
+    const prev = persistedRef.current;
+    persistedRef.current = data;
 
-  // Persist courses
-  useEffect(() => {
-    if (!isLoading) {
-      localStorage.setItem(STORAGE_KEYS.courses, JSON.stringify(courses));
+    const changes = diffData(prev, data);
+    if (changes.length > 0) {
+      const message = createSyncMessage(changes);
+      const stamp = { at: message.at, tabId: message.tabId };
+      changes.forEach(change => syncStampsRef.current.set(getRecordKey(change), stamp));
+      syncChannelRef.current?.postMessage(message);
+    }
+    if (remoteSyncRef.current) {
+      const local = changes.filter(change => !remoteKeysRef.current.has(getRemoteKey(change)));
+      remoteKeysRef.current.clear();
+      if (local.length > 0) {
+        updateRemoteSync(queueChanges(remoteSyncRef.current, local, data));
+        syncNowRef.current();
+      }
     }
-  }, [courses, isLoading]);
+    STORE_NAMES.forEach(name => {
+      persistStoreChanges(name, prev[name], data[name]).catch(error => {
+        console.error(`Error saving ${name} to IndexedDB:`, error);
+      });
+    });
+  }, [data, isLoading, isReadOnly, updateRemoteSync]);
 
-  // Persist rounds
+  // Persist history for the current session
   useEffect(() => {
-    if (!isLoading) {
-      localStorage.setItem(STORAGE_KEYS.rounds, JSON.stringify(rounds));
-    }
-  }, [rounds, isLoading]);
+    saveHistory(history);
+  }, [history]);
+
+  // Applies a mutation and records it as an undoable command. Returns the command's
+  // id, so a toast can undo exactly that change later.
+  const commit = useCallback((label: string, recipe: (data: GolfData) => GolfData) => {
+    if (isReadOnly) return undefined;
+    const prev = dataRef.current;
+    const next = recipe(prev);
+    const changes = diffData(prev, next);
+    if (changes.length === 0) return undefined;
+
+    const id = crypto.randomUUID();
+    updateData(next);
+    updateHistory(pushCommand(historyRef.current, {
+      id,
+      label,
+      timestamp: new Date().toISOString(),
+      changes,
+    }));
+    return id;
+  }, [isReadOnly, updateData, updateHistory]);
+
+  // History actions. Given a command id, undo only goes ahead while that command
+  // is still the latest one.
+  const undo = useCallback((commandId?: string) => {
+    const { past, future } = historyRef.current;
+    const command = past[past.length - 1];
+    if (!command || (commandId && command.id !== commandId)) return undefined;
+
+    updateData(applyCommand(dataRef.current, command, 'undo'));
+    updateHistory({ past: past.slice(0, -1), future: [command, ...future] });
+    return command;
+  }, [updateData, updateHistory]);
+
+  const redo = useCallback(() => {
+    const { past, future } = historyRef.current;
+    const command = future[0];
+    if (!command) return undefined;
+
+    updateData(applyCommand(dataRef.current, command, 'redo'));
+    updateHistory({ past: [...past, command], future: future.slice(1) });
+    return command;
+  }, [updateData, updateHistory]);
+
+  // Records that failed validation on load are kept aside until dismissed
+  const dismissQuarantine = useCallback(() => {
+    clearQuarantine()
+      .then(() => setQuarantine([]))
+      .catch(error => {
+        console.error('Error clearing quarantined records:', error);
+      });
+  }, []);
+
+  // Replace all collections at once, e.g. when restoring a backup. Records the backup
+  // has unchanged stay as they are, so only real changes go into the undo history.
+  const restoreData = useCallback((restored: GolfData) => {
+    return commit('Restore backup', d => keepUnchangedRecords(d, restored));
+  }, [commit]);
 
   // Player actions
   const addPlayer = useCallback((name: string, avatar?: string) => {
@@ -74,127 +309,283 @@ export function useGolfData() {
       avatar,
       createdAt: new Date().toISOString(),
     };
-    setPlayers(prev => [...prev, newPlayer]);
+    commit('Add player', d => ({ ...d, players: [...d.players, newPlayer] }));
     return newPlayer;
-  }, []);
+  }, [commit]);
 
   const removePlayer = useCallback((playerId: string) => {
-    setPlayers(prev => prev.filter(p => p.id !== playerId));
-  }, []);
+    return commit('Remove player', d => ({ ...d, players: d.players.filter(p => p.id !== playerId) }));
+  }, [commit]);
 
   const updatePlayer = useCallback((playerId: string, updates: Partial<Pick<Player, 'name' | 'avatar'>>) => {
-    setPlayers(prev => prev.map(p => 
-      p.id === playerId ? { ...p, ...updates } : p
-    ));
-  }, []);
+    return commit('Edit player', d => ({
+      ...d,
+      players: d.players.map(p =>
+        p.id === playerId ? { ...p, ...updates } : p
+      ),
+    }));
+  }, [commit]);
 
   // Season actions
-  const createSeason = useCallback((name: string, playerIds: string[]) => {
+  const createSeason = useCallback((
+    name: string,
+    playerIds: string[],
+    rules: ScoringRules = DEFAULT_SCORING_RULES,
+    stakes?: Stakes
+  ) => {
     const newSeason: Season = {
       id: crypto.randomUUID(),
       name: name.trim(),
       playerIds,
+      rules,
+      stakes,
       status: 'active',
       createdAt: new Date().toISOString(),
     };
-    setSeasons(prev => [...prev, newSeason]);
+    commit('Create season', d => ({ ...d, seasons: [...d.seasons, newSeason] }));
     return newSeason;
-  }, []);
+  }, [commit]);
 
   const getActiveSeason = useCallback(() => {
-    return seasons.find(s => s.status === 'active');
-  }, [seasons]);
+    return data.seasons.find(s => s.status === 'active');
+  }, [data.seasons]);
 
   const completeSeason = useCallback((seasonId: string) => {
-    setSeasons(prev => prev.map(s => 
-      s.id === seasonId 
-        ? { ...s, status: 'completed' as const, completedAt: new Date().toISOString() }
-        : s
-    ));
-  }, []);
+    return commit('Complete season', d => ({
+      ...d,
+      seasons: d.seasons.map(s =>
+        s.id === seasonId
+          ? { ...s, status: 'completed' as const, completedAt: new Date().toISOString() }
+          : s
+      ),
+    }));
+  }, [commit]);
 
   const deleteSeason = useCallback((seasonId: string) => {
-    setSeasons(prev => prev.filter(s => s.id !== seasonId));
-    // Also delete associated rounds
-    setRounds(prev => prev.filter(r => r.seasonId !== seasonId));
-  }, []);
+    return commit('Delete season', d => ({
+      ...d,
+      seasons: d.seasons.filter(s => s.id !== seasonId),
+      // Also delete associated rounds
+      rounds: d.rounds.filter(r => r.seasonId !== seasonId),
+    }));
+  }, [commit]);
 
   // Course actions
-  const addCourse = useCallback((name: string, numberOfCourses: number, holesPerCourse: number, location?: string) => {
+  const addCourse = useCallback((
+    name: string,
+    numberOfCourses: number,
+    holesPerCourse: number,
+    location?: string,
+    layout?: CourseLayout,
+    coordinates?: Course['coordinates']
+  ) => {
     const newCourse: Course = {
       id: crypto.randomUUID(),
       name: name.trim(),
       location,
+      coordinates,
       numberOfCourses,
       holesPerCourse,
+      ...layout,
       createdAt: new Date().toISOString(),
     };
-    setCourses(prev => [...prev, newCourse]);
+    commit('Add course', d => ({ ...d, courses: [...d.courses, newCourse] }));
     return newCourse;
-  }, []);
+  }, [commit]);
 
   // Round actions
-  const createRound = useCallback((seasonId: string, courseId: string, playerIds: string[]) => {
+  const createRound = useCallback((seasonId: string, courseId: string, playerIds: string[], options: RoundOptions = {}) => {
+    // Snapshot course handicaps so later index changes don't rewrite this round
+    const { rounds, courses, seasons } = dataRef.current;
+    const course = courses.find(c => c.id === courseId);
+    const holeCount = options.holeCount ?? course?.holesPerCourse ?? 18;
+    const indexes = getHandicapIndexes(rounds, courses, playerIds);
+    const handicaps = Object.fromEntries(
+      Object.entries(indexes).map(([playerId, index]) => [
+        playerId,
+        calculateCourseHandicap(index, course, holeCount),
+      ])
+    );
+
     const newRound: Round = {
       id: crypto.randomUUID(),
       seasonId,
       courseId,
       playerIds,
       holeResults: [],
+      handicaps,
+      netScoring: options.netScoring || undefined,
+      format: options.format,
+      teams: options.teams,
+      teamFormat: options.teams ? options.teamFormat ?? 'betterBall' : undefined,
+      stablefordTable: options.format === 'stableford' ? options.stablefordTable ?? 'standard' : undefined,
+      nassau: options.format === 'nassau' ? options.nassau : undefined,
+      stakes: seasons.find(s => s.id === seasonId)?.stakes,
+      holeCount,
       startedAt: new Date().toISOString(),
     };
-    setRounds(prev => [...prev, newRound]);
+    commit('Start round', d => ({ ...d, rounds: [...d.rounds, newRound] }));
     return newRound;
-  }, []);
+  }, [commit]);
+
+  const updateRoundHole = useCallback((roundId: string, result: HoleResult) => {
+    // The save time decides between devices scoring the same hole, so an unchanged
+    // hole is left as it is rather than saved again
+    const saved: HoleResult = { ...result, updatedAt: new Date().toISOString() };
+    return commit(`Save hole ${result.holeNumber}`, d => ({
+      ...d,
+      rounds: d.rounds.map(r => {
+        if (r.id !== roundId) return r;
+
+        const existingIndex = r.holeResults.findIndex(h => h.holeNumber === result.holeNumber);
+        if (!isHoleResultChanged(r.holeResults[existingIndex], result)) return r;
 
-  const updateRoundHole = useCallback((roundId: string, holeNumber: number, winnerIds: string[], holeInOnePlayerIds: string[] = []) => {
-    setRounds(prev => prev.map(r => {
-      if (r.id !== roundId) return r;
-      
-      const existingIndex = r.holeResults.findIndex(h => h.holeNumber === holeNumber);
-      const newResult = { holeNumber, winnerIds, holeInOnePlayerIds };
-      
-      const newHoleResults = existingIndex >= 0
-        ? r.holeResults.map((h, i) => i === existingIndex ? newResult : h)
-        : [...r.holeResults, newResult];
-      
-      return { ...r, holeResults: newHoleResults };
+        const newHoleResults = existingIndex >= 0
+          ? r.holeResults.map((h, i) => i === existingIndex ? saved : h)
+          : [...r.holeResults, saved];
+
+        return { ...r, holeResults: newHoleResults };
+      }),
     }));
-  }, []);
+  }, [commit]);
 
-  const completeRound = useCallback((roundId: string) => {
-    setRounds(prev => prev.map(r => 
-      r.id === roundId 
-        ? { ...r, completedAt: new Date().toISOString() }
-        : r
-    ));
-  }, []);
+  // Moving between holes isn't an edit, so it's saved without an undo entry, and only
+  // on this device
+  const setRoundCurrentHole = useCallback((roundId: string, holeNumber: number) => {
+    if (isReadOnly) return;
+    const next = { ...currentHolesRef.current, [roundId]: holeNumber };
+    currentHolesRef.current = next;
+    setCurrentHoles(next);
+    writeMeta(CURRENT_HOLES_KEY, next).catch(error => {
+      console.error('Error saving the current hole to IndexedDB:', error);
+    });
+  }, [isReadOnly]);
+
+  const getRoundCurrentHole = useCallback((roundId: string) => currentHoles[roundId] ?? 1, [currentHoles]);
+
+  const completeRound = useCallback((roundId: string, matchResult?: MatchResult) => {
+    return commit('Finish round', d => ({
+      ...d,
+      rounds: d.rounds.map(r =>
+        r.id === roundId
+          ? { ...r, matchResult, completedAt: new Date().toISOString() }
+          : r
+      ),
+    }));
+  }, [commit]);
+
+  const deleteRound = useCallback((roundId: string) => {
+    return commit('Delete round', d => ({ ...d, rounds: d.rounds.filter(r => r.id !== roundId) }));
+  }, [commit]);
+
+  // Stops a round in progress; it stays in the season's history but scores nothing
+  const abandonRound = useCallback((roundId: string, reason?: string) => {
+    return commit('Abandon round', d => ({
+      ...d,
+      rounds: d.rounds.map(r =>
+        r.id === roundId
+          ? { ...r, abandonedAt: new Date().toISOString(), abandonReason: reason?.trim() || undefined }
+          : r
+      ),
+    }));
+  }, [commit]);
+
+  // Puts a finished or abandoned round back in progress
+  const reopenRound = useCallback((roundId: string) => {
+    return commit('Reopen round', d => ({
+      ...d,
+      rounds: d.rounds.map(r =>
+        r.id === roundId
+          ? { ...r, completedAt: undefined, matchResult: undefined, abandonedAt: undefined, abandonReason: undefined }
+          : r
+      ),
+    }));
+  }, [commit]);
+
+  // Edits a finished round, keeping the previous hole result in the round's audit trail
+  const correctRoundHole = useCallback((roundId: string, correctedResult: HoleResult, note?: string) => {
+    const result: HoleResult = { ...correctedResult, updatedAt: new Date().toISOString() };
+    return commit(`Correct hole ${result.holeNumber}`, d => ({
+      ...d,
+      rounds: d.rounds.map(r => {
+        if (r.id !== roundId) return r;
+
+        const before = r.holeResults.find(h => h.holeNumber === result.holeNumber);
+        const correction: RoundCorrection = {
+          id: crypto.randomUUID(),
+          holeNumber: result.holeNumber,
+          before,
+          after: result,
+          note: note?.trim() || undefined,
+          correctedAt: new Date().toISOString(),
+        };
+        const corrected: Round = {
+          ...r,
+          holeResults: before
+            ? r.holeResults.map(h => h === before ? result : h)
+            : [...r.holeResults, result],
+          corrections: [...(r.corrections ?? []), correction],
+        };
+
+        // A finished match is decided again from the corrected holes
+        if (!r.matchResult) return corrected;
+        const course = d.courses.find(c => c.id === r.courseId);
+        return {
+          ...corrected,
+          matchResult: getMatchResult(getMatchStatus(corrected, getRoundHoleCount(corrected, course))),
+        };
+      }),
+    }));
+  }, [commit]);
 
   return {
     // State
-    players,
-    seasons,
-    courses,
-    rounds,
+    players: data.players,
+    seasons: data.seasons,
+    courses: data.courses,
+    rounds: data.rounds,
+    quarantine,
     isLoading,
-    
+    newerSchemaVersion,
+    remoteSyncStatus,
+    pendingSyncChanges,
+
+    // History
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    undoLabel: history.past[history.past.length - 1]?.label,
+    lastCommandId: history.past[history.past.length - 1]?.id,
+    redoLabel: history.future[0]?.label,
+    undo,
+    redo,
+
+    // Storage actions
+    dismissQuarantine,
+    restoreData,
+
     // Player actions
     addPlayer,
     removePlayer,
     updatePlayer,
-    
+
     // Season actions
     createSeason,
     getActiveSeason,
     completeSeason,
     deleteSeason,
-    
+
     // Course actions
     addCourse,
-    
+
     // Round actions
     createRound,
     updateRoundHole,
+    getRoundCurrentHole,
+    setRoundCurrentHole,
     completeRound,
+    correctRoundHole,
+    deleteRound,
+    abandonRound,
+    reopenRound,
   };
 }
@@ -0,0 +1,143 @@
+import { GolfData, Season } from '@/types/golf';
+import { SCHEMA_VERSION, RawGolfData, validateGolfData } from '@/lib/schema';
+import { runMigrations } from '@/lib/migrations';
+import { STORE_NAMES, StoreName } from '@/lib/storage';
+
+// Single-file backup of all tracker data. The checksum covers the serialized
+// `data` section so truncated or hand-edited files are rejected on import.
+
+export const BACKUP_FORMAT = 'golf-tracker-backup';
+
+export interface BackupDocument {
+  format: typeof BACKUP_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  checksum: string;
+  data: GolfData;
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface StoreImportPreview {
+  incoming: number;
+  added: number;
+  identical: number;
+  conflicting: number;
+}
+
+export type ImportPreview = Record<StoreName, StoreImportPreview>;
+
+const computeChecksum = async (data: unknown): Promise<string> => {
+  const bytes = new TextEncoder().encode(JSON.stringify(data));
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+export const createBackup = async (data: GolfData): Promise<BackupDocument> => ({
+  format: BACKUP_FORMAT,
+  schemaVersion: SCHEMA_VERSION,
+  exportedAt: new Date().toISOString(),
+  checksum: await computeChecksum(data),
+  data,
+});
+
+// Parses and verifies a backup file, upgrading older schema versions
+export const parseBackup = async (text: string): Promise<BackupDocument> => {
+  let parsed: Partial<BackupDocument>;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  if (!parsed || parsed.format !== BACKUP_FORMAT || typeof parsed.data !== 'object' || !parsed.data) {
+    throw new Error('The file is not a Golf Tracker backup.');
+  }
+  if (typeof parsed.schemaVersion !== 'number' || parsed.schemaVersion > SCHEMA_VERSION) {
+    throw new Error('This backup was created by a newer version of the app.');
+  }
+  if (parsed.checksum !== await computeChecksum(parsed.data)) {
+    throw new Error('The backup checksum does not match. The file may be corrupted.');
+  }
+
+  const raw = Object.fromEntries(
+    STORE_NAMES.map(name => [name, Array.isArray(parsed.data[name]) ? parsed.data[name] : []])
+  ) as RawGolfData;
+  const { data, quarantined } = validateGolfData(runMigrations(raw, parsed.schemaVersion));
+  if (quarantined.length > 0) {
+    throw new Error(`The backup contains ${quarantined.length} invalid record${quarantined.length !== 1 ? 's' : ''}.`);
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    schemaVersion: SCHEMA_VERSION,
+    exportedAt: typeof parsed.exportedAt === 'string' ? parsed.exportedAt : '',
+    checksum: parsed.checksum,
+    data,
+  };
+};
+
+export const previewImport = (current: GolfData, incoming: GolfData): ImportPreview => {
+  const entries = STORE_NAMES.map(name => {
+    const currentRecords: { id: string }[] = current[name];
+    const incomingRecords: { id: string }[] = incoming[name];
+    const existing = new Map(currentRecords.map(record => [record.id, record]));
+    const preview: StoreImportPreview = { incoming: incomingRecords.length, added: 0, identical: 0, conflicting: 0 };
+
+    incomingRecords.forEach(record => {
+      const match = existing.get(record.id);
+      if (!match) preview.added++;
+      else if (JSON.stringify(match) === JSON.stringify(record)) preview.identical++;
+      else preview.conflicting++;
+    });
+
+    return [name, preview];
+  });
+
+  return Object.fromEntries(entries) as ImportPreview;
+};
+
+const mergeStore = <T extends { id: string }>(existing: T[], added: T[]) => {
+  const ids = new Set(existing.map(record => record.id));
+  return [...existing, ...added.filter(record => !ids.has(record.id))];
+};
+
+// Only one season can be active. Merged-in seasons lose out to an active season
+// already on this device, so these are added as completed.
+export const getSeasonsClosedByMerge = (current: GolfData, incoming: GolfData): Season[] => {
+  let hasActive = current.seasons.some(season => season.status === 'active');
+  const currentIds = new Set(current.seasons.map(season => season.id));
+  return incoming.seasons.filter(season => {
+    if (currentIds.has(season.id) || season.status !== 'active') return false;
+    if (!hasActive) {
+      hasActive = true;
+      return false;
+    }
+    return true;
+  });
+};
+
+// Merge keeps existing records when IDs collide and adds everything new;
+// replace discards the current data entirely.
+export const applyImport = (
+  current: GolfData,
+  incoming: GolfData,
+  mode: ImportMode,
+  importedAt = new Date().toISOString()
+): GolfData => {
+  if (mode === 'replace') return incoming;
+
+  const closedIds = new Set(getSeasonsClosedByMerge(current, incoming).map(season => season.id));
+  const incomingSeasons = incoming.seasons.map(season =>
+    closedIds.has(season.id) ? { ...season, status: 'completed' as const, completedAt: importedAt } : season
+  );
+
+  return {
+    players: mergeStore(current.players, incoming.players),
+    seasons: mergeStore(current.seasons, incomingSeasons),
+    courses: mergeStore(current.courses, incoming.courses),
+    rounds: mergeStore(current.rounds, incoming.rounds),
+  };
+};
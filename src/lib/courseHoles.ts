@@ -0,0 +1,92 @@
+import { Course, CourseHole, CourseTee, DistanceUnit, Round } from '@/types/golf';
+
+// Hole-by-hole course definitions (par, stroke index and distance per tee)
+
+export const PAR_OPTIONS = [3, 4, 5, 6];
+
+export interface CourseLayout {
+  tees: CourseTee[];
+  holes: CourseHole[];
+  distanceUnit: DistanceUnit;
+  courseRating?: number;
+  slopeRating?: number;
+}
+
+export const createDefaultTee = (name = 'White'): CourseTee => ({
+  id: crypto.randomUUID(),
+  name,
+});
+
+export const createDefaultHoles = (count: number): CourseHole[] =>
+  Array.from({ length: count }, (_, i) => ({ number: i + 1, par: 4, distances: {} }));
+
+export const createDefaultLayout = (holeCount: number): CourseLayout => ({
+  tees: [createDefaultTee()],
+  holes: createDefaultHoles(holeCount),
+  distanceUnit: 'yards',
+});
+
+// Keeps existing hole definitions when the hole count changes
+export const resizeHoles = (holes: CourseHole[], count: number): CourseHole[] =>
+  Array.from({ length: count }, (_, i) => holes[i] ?? { number: i + 1, par: 4, distances: {} });
+
+export const getCourseHole = (course: Course | undefined, holeNumber: number) =>
+  course?.holes?.find(hole => hole.number === holeNumber);
+
+export const getTotalPar = (holes: CourseHole[] | undefined) =>
+  holes?.length ? holes.reduce((sum, hole) => sum + hole.par, 0) : undefined;
+
+export const formatDistance = (distance: number, unit: DistanceUnit = 'yards') =>
+  `${distance} ${unit === 'meters' ? 'm' : 'yds'}`;
+
+// Stroke indexes must be a permutation of 1..n when given
+export const hasValidStrokeIndexes = (holes: CourseHole[]) => {
+  const indexes = holes.map(hole => hole.strokeIndex).filter((si): si is number => si !== undefined);
+  if (indexes.length === 0) return true;
+  if (indexes.length !== holes.length) return false;
+  return new Set(indexes).size === holes.length && indexes.every(si => si >= 1 && si <= holes.length);
+};
+
+export interface ParTypeStats {
+  par: number;
+  holesPlayed: number;
+  holesWon: number;
+  strokedHoles: number;
+  totalStrokes: number;
+  averageStrokes: number;
+}
+
+// Per-player results grouped by hole par, from completed rounds on courses with a hole table
+export const getResultsByPar = (rounds: Round[], courses: Course[], playerId: string): ParTypeStats[] => {
+  const byPar = new Map<number, ParTypeStats>();
+
+  rounds.forEach(round => {
+    if (!round.completedAt || !round.playerIds.includes(playerId)) return;
+    const course = courses.find(c => c.id === round.courseId);
+
+    round.holeResults.forEach(result => {
+      const hole = getCourseHole(course, result.holeNumber);
+      if (!hole) return;
+
+      const stats = byPar.get(hole.par) ?? {
+        par: hole.par,
+        holesPlayed: 0,
+        holesWon: 0,
+        strokedHoles: 0,
+        totalStrokes: 0,
+        averageStrokes: 0,
+      };
+      stats.holesPlayed++;
+      if (result.winnerIds.includes(playerId)) stats.holesWon++;
+      const strokes = result.strokes?.[playerId];
+      if (strokes) {
+        stats.strokedHoles++;
+        stats.totalStrokes += strokes;
+        stats.averageStrokes = stats.totalStrokes / stats.strokedHoles;
+      }
+      byPar.set(hole.par, stats);
+    });
+  });
+
+  return Array.from(byPar.values()).sort((a, b) => a.par - b.par);
+};
@@ -0,0 +1,215 @@
+import { Course, Round } from '@/types/golf';
+import { getCourseHole } from '@/lib/courseHoles';
+
+// Simplified World Handicap System calculations. Indexes are derived from
+// completed stroke-play rounds on rated courses, so they stay current as
+// rounds are added, edited or removed.
+
+export const MAX_HANDICAP_INDEX = 54;
+const STANDARD_SLOPE = 113;
+const MAX_DIFFERENTIALS = 20;
+
+// Number of lowest differentials used (and adjustment) by count of available differentials
+const DIFFERENTIALS_USED: Array<{ upTo: number; use: number; adjustment: number }> = [
+  { upTo: 3, use: 1, adjustment: -2 },
+  { upTo: 4, use: 1, adjustment: -1 },
+  { upTo: 5, use: 1, adjustment: 0 },
+  { upTo: 6, use: 2, adjustment: -1 },
+  { upTo: 8, use: 2, adjustment: 0 },
+  { upTo: 11, use: 3, adjustment: 0 },
+  { upTo: 14, use: 4, adjustment: 0 },
+  { upTo: 16, use: 5, adjustment: 0 },
+  { upTo: 18, use: 6, adjustment: 0 },
+  { upTo: 19, use: 7, adjustment: 0 },
+  { upTo: 20, use: 8, adjustment: 0 },
+];
+
+export interface ScoreDifferential {
+  roundId: string;
+  date: string;
+  adjustedGross: number;
+  differential: number;
+}
+
+export interface HandicapRecord {
+  playerId: string;
+  index?: number; // Undefined until at least 3 differentials exist
+  differentials: ScoreDifferential[];
+}
+
+const roundToTenth = (value: number) => Math.round(value * 10) / 10;
+
+export const isRatedCourse = (course: Course | undefined): course is Course =>
+  !!course?.courseRating && !!course?.slopeRating;
+
+export const calculateHandicapIndex = (differentials: number[]): number | undefined => {
+  const recent = differentials.slice(-MAX_DIFFERENTIALS);
+  const rule = DIFFERENTIALS_USED.find(r => recent.length <= r.upTo);
+  if (recent.length < 3 || !rule) return undefined;
+
+  const lowest = [...recent].sort((a, b) => a - b).slice(0, rule.use);
+  const average = lowest.reduce((sum, d) => sum + d, 0) / lowest.length;
+  return Math.min(roundToTenth(average + rule.adjustment), MAX_HANDICAP_INDEX);
+};
+
+// Strokes a player receives over the holes played. Ratings describe the course's
+// holes, so their difference from par is shared out the same way.
+export const calculateCourseHandicap = (index: number, course: Course | undefined, holeCount: number) => {
+  const holeShare = holeCount / 18;
+  if (!isRatedCourse(course)) return Math.round(index * holeShare);
+
+  const par = course.holes?.reduce((sum, hole) => sum + hole.par, 0);
+  const ratingAdjustment = par ? (course.courseRating - par) * (holeCount / course.holesPerCourse) : 0;
+  return Math.round(index * holeShare * (course.slopeRating / STANDARD_SLOPE) + ratingAdjustment);
+};
+
+// Strokes received on a single hole, allocated by stroke index (1 = hardest).
+// Plus handicaps give strokes back starting from the easiest holes.
+export const getStrokesReceived = (courseHandicap: number, strokeIndex: number, holeCount: number) => {
+  if (!courseHandicap || holeCount <= 0) return 0;
+
+  const total = Math.abs(courseHandicap);
+  const base = Math.floor(total / holeCount);
+  const remainder = total % holeCount;
+  const extra = courseHandicap > 0
+    ? strokeIndex <= remainder ? 1 : 0
+    : strokeIndex > holeCount - remainder ? 1 : 0;
+
+  return courseHandicap > 0 ? base + extra : -(base + extra);
+};
+
+// Holes handicap strokes are shared over: the holes planned when the round started
+export const getHandicapHoleCount = (round: Round, course: Course | undefined) =>
+  round.holeCount ?? course?.holesPerCourse ?? 18;
+
+// Stroke index of a hole among the round's holes. Rounds longer than the course play its
+// holes again, and each pass takes its turn on every course stroke index: a 9-hole course
+// played twice gives its hardest hole stroke indexes 1 and 2, the next 3 and 4, and so on.
+export const getHoleStrokeIndex = (course: Course | undefined, holeNumber: number, holeCount: number) => {
+  const courseHoleCount = course?.holesPerCourse ?? 18;
+  const difficulty = (roundHole: number) => {
+    const courseHoleNumber = ((roundHole - 1) % courseHoleCount) + 1;
+    const strokeIndex = getCourseHole(course, courseHoleNumber)?.strokeIndex ?? courseHoleNumber;
+    const pass = Math.floor((roundHole - 1) / courseHoleCount);
+    return strokeIndex * holeCount + pass;
+  };
+
+  const hole = difficulty(holeNumber);
+  let harder = 0;
+  for (let roundHole = 1; roundHole <= holeCount; roundHole++) {
+    if (difficulty(roundHole) < hole) harder++;
+  }
+  return harder + 1;
+};
+
+export const getNetStrokes = (
+  gross: number,
+  courseHandicap: number | undefined,
+  course: Course | undefined,
+  holeNumber: number,
+  holeCount: number
+) => {
+  if (!courseHandicap) return gross;
+  return gross - getStrokesReceived(courseHandicap, getHoleStrokeIndex(course, holeNumber, holeCount), holeCount);
+};
+
+// Adjusted gross score and differential for a full stroke-play round on a rated course.
+// Each hole is capped at net double bogey (par + 5 before an index exists).
+const getScoreDifferential = (
+  round: Round,
+  course: Course,
+  playerId: string,
+  currentIndex: number | undefined
+): ScoreDifferential | undefined => {
+  const holeCount = course.holesPerCourse;
+  const courseHandicap = currentIndex !== undefined
+    ? calculateCourseHandicap(currentIndex, course, holeCount)
+    : undefined;
+
+  let adjustedGross = 0;
+  for (let holeNumber = 1; holeNumber <= holeCount; holeNumber++) {
+    const gross = round.holeResults.find(h => h.holeNumber === holeNumber)?.strokes?.[playerId];
+    if (!gross) return undefined;
+
+    const par = getCourseHole(course, holeNumber)?.par;
+    if (!par) {
+      adjustedGross += gross;
+      continue;
+    }
+    const maximum = courseHandicap !== undefined
+      ? par + 2 + getStrokesReceived(courseHandicap, getHoleStrokeIndex(course, holeNumber, holeCount), holeCount)
+      : par + 5;
+    adjustedGross += Math.min(gross, maximum);
+  }
+
+  // Ratings describe the holes of the course; scale shorter courses to 18 holes
+  const differential = (STANDARD_SLOPE / course.slopeRating) * (adjustedGross - course.courseRating) * (18 / holeCount);
+
+  return {
+    roundId: round.id,
+    date: round.startedAt,
+    adjustedGross,
+    differential: roundToTenth(differential),
+  };
+};
+
+export const getHandicapRecord = (rounds: Round[], courses: Course[], playerId: string): HandicapRecord => {
+  const eligible = rounds
+    .filter(r => r.completedAt && r.playerIds.includes(playerId))
+    .sort((a, b) => new Date(a.startedAt).getTime() - new Date(b.startedAt).getTime());
+
+  const differentials: ScoreDifferential[] = [];
+  let index: number | undefined;
+
+  eligible.forEach(round => {
+    const course = courses.find(c => c.id === round.courseId);
+    if (!isRatedCourse(course)) return;
+
+    const differential = getScoreDifferential(round, course, playerId, index);
+    if (!differential) return;
+
+    differentials.push(differential);
+    index = calculateHandicapIndex(differentials.map(d => d.differential));
+  });
+
+  return { playerId, index, differentials };
+};
+
+export const getHandicapIndexes = (rounds: Round[], courses: Course[], playerIds: string[]) => {
+  const indexes: Record<string, number> = {};
+  playerIds.forEach(playerId => {
+    const { index } = getHandicapRecord(rounds, courses, playerId);
+    if (index !== undefined) indexes[playerId] = index;
+  });
+  return indexes;
+};
+
+export const formatHandicap = (value: number) =>
+  value < 0 ? `+${Math.abs(value).toFixed(1)}` : value.toFixed(1);
+
+// Net strokes per player over the holes they have a stroke count for,
+// using the course handicaps captured when the round started
+export const getRoundNetScores = (round: Round, course: Course | undefined) => {
+  const holeCount = getHandicapHoleCount(round, course);
+  const scores: Record<string, { strokes: number; holes: number }> = {};
+  round.holeResults.forEach(hole => {
+    Object.entries(hole.strokes ?? {}).forEach(([playerId, gross]) => {
+      if (!scores[playerId]) scores[playerId] = { strokes: 0, holes: 0 };
+      scores[playerId].strokes += getNetStrokes(gross, round.handicaps?.[playerId], course, hole.holeNumber, holeCount);
+      scores[playerId].holes++;
+    });
+  });
+  return scores;
+};
+
+export const getHoleNetStrokes = (
+  strokes: Record<string, number>,
+  round: Round,
+  course: Course | undefined,
+  holeNumber: number
+) => Object.fromEntries(
+  Object.entries(strokes).map(([playerId, gross]) => [
+    playerId,
+    getNetStrokes(gross, round.handicaps?.[playerId], course, holeNumber, getHandicapHoleCount(round, course)),
+  ])
+);
@@ -0,0 +1,151 @@
+import { GolfData } from '@/types/golf';
+import { STORE_NAMES, StoreName } from '@/lib/storage';
+
+// Undo/redo history. Every mutation is recorded as a command holding the
+// before/after state of each record it touched, so it can be reverted or
+// re-applied without snapshotting the whole dataset.
+
+const HISTORY_STORAGE_KEY = 'golf-tracker-history';
+const MAX_HISTORY = 100;
+
+type DataRecord = { id: string };
+
+export interface RecordChange {
+  store: StoreName;
+  id: string;
+  before?: DataRecord;
+  after?: DataRecord;
+}
+
+export interface HistoryCommand {
+  id: string;
+  label: string;
+  timestamp: string;
+  changes: RecordChange[];
+}
+
+export interface HistoryState {
+  past: HistoryCommand[];
+  future: HistoryCommand[];
+}
+
+export const createEmptyHistory = (): HistoryState => ({ past: [], future: [] });
+
+export const diffData = (prev: GolfData, next: GolfData): RecordChange[] => {
+  return STORE_NAMES.flatMap(store => {
+    const prevRecords: DataRecord[] = prev[store];
+    const nextRecords: DataRecord[] = next[store];
+    if (prevRecords === nextRecords) return [];
+
+    const prevById = new Map(prevRecords.map(record => [record.id, record]));
+    const nextIds = new Set(nextRecords.map(record => record.id));
+    const changes: RecordChange[] = [];
+
+    nextRecords.forEach(record => {
+      const before = prevById.get(record.id);
+      if (before !== record) changes.push({ store, id: record.id, before, after: record });
+    });
+    prevRecords.forEach(record => {
+      if (!nextIds.has(record.id)) changes.push({ store, id: record.id, before: record });
+    });
+
+    return changes;
+  });
+};
+
+// Swaps records equal to the current ones for the current objects, so replacing
+// the whole dataset (e.g. from a backup) only diffs as what really changed
+export const keepUnchangedRecords = (current: GolfData, next: GolfData): GolfData => {
+  const keep = <T extends DataRecord>(currentRecords: T[], nextRecords: T[]) => {
+    const currentById = new Map(currentRecords.map(record => [record.id, record]));
+    return nextRecords.map(record => {
+      const existing = currentById.get(record.id);
+      return existing && JSON.stringify(existing) === JSON.stringify(record) ? existing : record;
+    });
+  };
+  return {
+    players: keep(current.players, next.players),
+    seasons: keep(current.seasons, next.seasons),
+    courses: keep(current.courses, next.courses),
+    rounds: keep(current.rounds, next.rounds),
+  };
+};
+
+const setRecord = (records: DataRecord[], id: string, value?: DataRecord) => {
+  const index = records.findIndex(record => record.id === id);
+  if (!value) return index >= 0 ? records.filter((_, i) => i !== index) : records;
+  if (index >= 0) return records.map((record, i) => (i === index ? value : record));
+  return [...records, value];
+};
+
+// Re-applies a command's `after` values, or restores its `before` values when undoing
+export const applyCommand = (data: GolfData, command: HistoryCommand, direction: 'undo' | 'redo'): GolfData => {
+  const changes = direction === 'undo' ? [...command.changes].reverse() : command.changes;
+  const next = { ...data };
+
+  changes.forEach(change => {
+    const value = direction === 'undo' ? change.before : change.after;
+    (next[change.store] as DataRecord[]) = setRecord(next[change.store], change.id, value);
+  });
+
+  return next;
+};
+
+// Sets records to changes made outside this history, e.g. in another tab
+export const applyChanges = (data: GolfData, changes: Omit<RecordChange, 'before'>[]): GolfData => {
+  const next = { ...data };
+  changes.forEach(change => {
+    (next[change.store] as DataRecord[]) = setRecord(next[change.store], change.id, change.after);
+  });
+  return next;
+};
+
+// Drops commands touching records changed outside this history, so undo can't overwrite them
+export const forgetRecords = (history: HistoryState, changes: Pick<RecordChange, 'store' | 'id'>[]): HistoryState => {
+  const touches = (command: HistoryCommand) =>
+    command.changes.some(c => changes.some(change => change.store === c.store && change.id === c.id));
+  return {
+    past: history.past.filter(command => !touches(command)),
+    future: history.future.filter(command => !touches(command)),
+  };
+};
+
+export const pushCommand = (history: HistoryState, command: HistoryCommand): HistoryState => ({
+  past: [...history.past, command].slice(-MAX_HISTORY),
+  future: [],
+});
+
+// History lives in sessionStorage so it survives reloads within the same tab session
+export const loadHistory = (): HistoryState => {
+  try {
+    const stored = sessionStorage.getItem(HISTORY_STORAGE_KEY);
+    if (!stored) return createEmptyHistory();
+    const parsed = JSON.parse(stored);
+    if (!Array.isArray(parsed?.past) || !Array.isArray(parsed?.future)) return createEmptyHistory();
+    return parsed;
+  } catch (error) {
+    console.error('Error loading history from sessionStorage:', error);
+    return createEmptyHistory();
+  }
+};
+
+// When the history is over the storage quota, e.g. after restoring a large backup,
+// the oldest commands are left out of the saved copy until it fits. They can still
+// be undone until the page is reloaded.
+export const saveHistory = (history: HistoryState) => {
+  let saved = history;
+  for (;;) {
+    try {
+      sessionStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(saved));
+      return;
+    } catch (error) {
+      if (saved.past.length === 0 && saved.future.length === 0) {
+        console.error('Error saving history to sessionStorage:', error);
+        return;
+      }
+      saved = saved.past.length > 0
+        ? { past: saved.past.slice(1), future: saved.future }
+        : { past: [], future: saved.future.slice(0, -1) };
+    }
+  }
+};
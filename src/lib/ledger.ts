@@ -0,0 +1,141 @@
+import { Round } from '@/types/golf';
+import { calculateSkins } from '@/lib/skins';
+import { getNassauBets, getNassauBetWinner } from '@/lib/nassau';
+import { getSideStablefordTotals } from '@/lib/stableford';
+import { getWolfPoints } from '@/lib/wolf';
+import { getHoleWinningSides, getRoundSides, RoundSide } from '@/lib/teams';
+
+// Side-bet money. Each completed round with stakes settles between its sides:
+// every player on the losing side pays the stake, shared out among the winning
+// side, so each round nets to zero. Positive amounts are money won.
+
+export interface LedgerEntry {
+  roundId: string;
+  courseId: string;
+  date: string;
+  amounts: Record<string, number>; // Won (+) or owed (-) per player in this round
+  balances: Record<string, number>; // Running balance per player after this round
+}
+
+export interface Transfer {
+  fromId: string;
+  toId: string;
+  amount: number;
+}
+
+const CENT = 0.005;
+
+const roundToCents = (amount: number) => Math.round(amount * 100) / 100;
+
+export const hasStakes = (round: Round) =>
+  !!round.stakes && Object.values(round.stakes).some(stake => stake > 0);
+
+// Money each player wins or owes from one round's bets
+export const getRoundWagers = (round: Round): Record<string, number> => {
+  const amounts: Record<string, number> = {};
+  round.playerIds.forEach(id => { amounts[id] = 0; });
+  if (!hasStakes(round)) return amounts;
+
+  const sides = getRoundSides(round);
+  const pay = (loser: RoundSide, winner: RoundSide, stake: number) => {
+    if (stake <= 0 || loser.id === winner.id) return;
+    const pot = stake * loser.playerIds.length;
+    loser.playerIds.forEach(id => { amounts[id] = (amounts[id] || 0) - stake; });
+    winner.playerIds.forEach(id => { amounts[id] = (amounts[id] || 0) + pot / winner.playerIds.length; });
+  };
+  const everyonePays = (winnerId: string, stake: number) => {
+    const winner = sides.find(side => side.id === winnerId);
+    if (winner) sides.forEach(side => pay(side, winner, stake));
+  };
+  // Each pair of sides settles the difference in their points
+  const settlePoints = (points: Record<string, number>, stake: number) => {
+    sides.forEach((a, i) => sides.slice(i + 1).forEach(b => {
+      const difference = (points[a.id] ?? 0) - (points[b.id] ?? 0);
+      if (difference > 0) pay(b, a, difference * stake);
+      if (difference < 0) pay(a, b, -difference * stake);
+    }));
+  };
+
+  const { perHole, perSkin, perNassauBet, perPoint } = round.stakes;
+  switch (round.format) {
+    case 'skins':
+      calculateSkins(round).holes.forEach(hole => {
+        if (hole.winnerId) everyonePays(hole.winnerId, hole.value * perSkin);
+      });
+      break;
+    case 'nassau':
+      getNassauBets(round).forEach(bet => {
+        const winnerId = getNassauBetWinner(bet);
+        if (winnerId) everyonePays(winnerId, perNassauBet);
+      });
+      break;
+    case 'stableford':
+      settlePoints(getSideStablefordTotals(round), perPoint);
+      break;
+    case 'wolf':
+      settlePoints(getWolfPoints(round), perPoint);
+      break;
+    default:
+      round.holeResults.forEach(hole => {
+        const winners = getHoleWinningSides(round, hole);
+        if (winners.length === 1) everyonePays(winners[0], perHole);
+      });
+  }
+  return amounts;
+};
+
+// Completed rounds with stakes in play order, with each player's running balance
+export const getLedger = (rounds: Round[]): LedgerEntry[] => {
+  const balances: Record<string, number> = {};
+  return rounds
+    .filter(round => round.completedAt && hasStakes(round))
+    .sort((a, b) => new Date(a.startedAt).getTime() - new Date(b.startedAt).getTime())
+    .map(round => {
+      const amounts = getRoundWagers(round);
+      Object.entries(amounts).forEach(([playerId, amount]) => {
+        balances[playerId] = (balances[playerId] || 0) + amount;
+      });
+      return {
+        roundId: round.id,
+        courseId: round.courseId,
+        date: round.startedAt,
+        amounts,
+        balances: { ...balances },
+      };
+    });
+};
+
+export const getLedgerBalances = (ledger: LedgerEntry[]) =>
+  ledger.length > 0 ? ledger[ledger.length - 1].balances : {};
+
+// Transfers that clear every balance: the biggest debtor repeatedly pays the
+// biggest creditor, which never takes more than one fewer transfer than players
+export const getSettleUpTransfers = (balances: Record<string, number>): Transfer[] => {
+  const creditors = Object.entries(balances)
+    .filter(([, balance]) => balance > CENT)
+    .map(([id, balance]) => ({ id, amount: balance }));
+  const debtors = Object.entries(balances)
+    .filter(([, balance]) => balance < -CENT)
+    .map(([id, balance]) => ({ id, amount: -balance }));
+
+  const transfers: Transfer[] = [];
+  while (creditors.length > 0 && debtors.length > 0) {
+    creditors.sort((a, b) => b.amount - a.amount);
+    debtors.sort((a, b) => b.amount - a.amount);
+    const [creditor] = creditors;
+    const [debtor] = debtors;
+
+    const amount = Math.min(creditor.amount, debtor.amount);
+    transfers.push({ fromId: debtor.id, toId: creditor.id, amount: roundToCents(amount) });
+    creditor.amount -= amount;
+    debtor.amount -= amount;
+    if (creditor.amount <= CENT) creditors.shift();
+    if (debtor.amount <= CENT) debtors.shift();
+  }
+  return transfers;
+};
+
+export const formatMoney = (amount: number) => {
+  const value = Math.abs(roundToCents(amount)).toFixed(2);
+  return amount < -CENT ? `-${value}` : amount > CENT ? `+${value}` : value;
+};
@@ -0,0 +1,33 @@
+import { LatLng } from '@/lib/maps/types';
+
+// Coordinates typed in by hand, for courses the map search doesn't know
+
+export interface CoordinateInput {
+  lat: string;
+  lng: string;
+}
+
+export interface ParsedCoordinates {
+  coordinates?: LatLng; // Missing when both fields are blank
+  error?: string;
+}
+
+const parseNumber = (value: string) => (value.trim() === '' ? NaN : Number(value));
+
+export const parseCoordinates = ({ lat, lng }: CoordinateInput): ParsedCoordinates => {
+  // "52.2, 0.12" pasted into the latitude field, as copied from most map sites
+  if (lat.includes(',') && !lng.trim()) [lat, lng] = lat.split(',', 2);
+  if (!lat.trim() && !lng.trim()) return {};
+  if (!lat.trim() || !lng.trim()) return { error: 'Enter both latitude and longitude, or leave both blank.' };
+
+  const point = { lat: parseNumber(lat), lng: parseNumber(lng) };
+  if (!(Math.abs(point.lat) <= 90)) return { error: 'Latitude must be a number from -90 to 90.' };
+  if (!(Math.abs(point.lng) <= 180)) return { error: 'Longitude must be a number from -180 to 180.' };
+  return { coordinates: point };
+};
+
+// Six decimal places is about 10cm, plenty for finding a course
+export const formatCoordinates = ({ lat, lng }: LatLng): CoordinateInput => ({
+  lat: lat.toFixed(6),
+  lng: lng.toFixed(6),
+});
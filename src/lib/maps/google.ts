@@ -0,0 +1,90 @@
+/// <reference types="@types/google.maps" />
+import { DEFAULT_MAP_CENTER, MapProvider } from '@/lib/maps/types';
+import { loadScript } from '@/lib/maps/loadScript';
+
+// Google Maps with Places search. Needs VITE_GOOGLE_MAPS_API_KEY.
+
+const hasGoogleMaps = () => typeof google !== 'undefined' && !!google.maps?.places;
+
+export const createGoogleMapProvider = (apiKey: string | undefined): MapProvider => {
+  let autocomplete: google.maps.places.AutocompleteService | undefined;
+  let places: google.maps.places.PlacesService | undefined;
+
+  const getPlaces = () => {
+    places ??= new google.maps.places.PlacesService(document.createElement('div'));
+    return places;
+  };
+
+  return {
+    id: 'google',
+
+    load: async () => {
+      if (hasGoogleMaps()) return;
+      if (!apiKey) throw new Error('No Google Maps API key is configured');
+      await loadScript(
+        'google-maps-script',
+        `https://maps.googleapis.com/maps/api/js?key=${encodeURIComponent(apiKey)}&libraries=places`
+      );
+    },
+
+    createMap: (container, onPick) => {
+      const map = new google.maps.Map(container, {
+        center: DEFAULT_MAP_CENTER,
+        zoom: 10,
+        mapTypeControl: false,
+        streetViewControl: false,
+        fullscreenControl: false,
+      });
+      places = new google.maps.places.PlacesService(map);
+      const click = onPick && map.addListener('click', (event: google.maps.MapMouseEvent) => {
+        if (event.latLng) onPick({ lat: event.latLng.lat(), lng: event.latLng.lng() });
+      });
+      let marker: google.maps.Marker | undefined;
+
+      return {
+        showLocation: ({ lat, lng, name }) => {
+          map.setCenter({ lat, lng });
+          map.setZoom(15);
+          marker?.setMap(null);
+          marker = new google.maps.Marker({ position: { lat, lng }, map, title: name });
+        },
+        destroy: () => {
+          click?.remove();
+          marker?.setMap(null);
+        },
+      };
+    },
+
+    search: (query) => new Promise(resolve => {
+      autocomplete ??= new google.maps.places.AutocompleteService();
+      autocomplete.getPlacePredictions(
+        { input: `${query} golf course`, types: ['establishment'] },
+        (results, status) => {
+          const ok = status === google.maps.places.PlacesServiceStatus.OK && results;
+          resolve(ok ? results.map(r => ({ id: r.place_id, description: r.description })) : []);
+        }
+      );
+    }),
+
+    getLocation: (suggestion) => new Promise(resolve => {
+      getPlaces().getDetails(
+        { placeId: suggestion.id, fields: ['geometry', 'name', 'formatted_address'] },
+        (place, status) => {
+          const location = place?.geometry?.location;
+          if (status !== google.maps.places.PlacesServiceStatus.OK || !location) {
+            resolve(null);
+            return;
+          }
+          resolve({
+            lat: location.lat(),
+            lng: location.lng(),
+            name: place.name || suggestion.description.split(',')[0],
+            address: place.formatted_address || suggestion.description,
+          });
+        }
+      );
+    }),
+
+    getExternalUrl: ({ lat, lng }) => `https://www.google.com/maps/search/?api=1&query=${lat},${lng}`,
+  };
+};
@@ -0,0 +1,47 @@
+import { MapProvider, MapProviderId } from '@/lib/maps/types';
+import { createGoogleMapProvider } from '@/lib/maps/google';
+import { createLeafletMapProvider } from '@/lib/maps/leaflet';
+import { createMockMapProvider, MOCK_COURSES } from '@/lib/maps/mock';
+
+export * from '@/lib/maps/types';
+export * from '@/lib/maps/coordinates';
+export { createGoogleMapProvider, createLeafletMapProvider, createMockMapProvider, MOCK_COURSES };
+
+// The map provider comes from VITE_MAP_PROVIDER ('google', 'osm' or 'mock'). Without
+// it, Google is used when an API key is configured and OpenStreetMap otherwise.
+
+const DEFAULT_GEOCODER_URL = 'https://nominatim.openstreetmap.org';
+
+export interface MapConfig {
+  provider?: string;
+  googleMapsApiKey?: string;
+  geocoderUrl?: string;
+}
+
+export const getMapProviderId = ({ provider, googleMapsApiKey }: MapConfig): MapProviderId => {
+  if (provider === 'google' || provider === 'osm' || provider === 'mock') return provider;
+  if (provider) console.warn(`Unknown map provider "${provider}", falling back to the default`);
+  return googleMapsApiKey ? 'google' : 'osm';
+};
+
+export const createMapProvider = (config: MapConfig): MapProvider => {
+  switch (getMapProviderId(config)) {
+    case 'google':
+      return createGoogleMapProvider(config.googleMapsApiKey);
+    case 'osm':
+      return createLeafletMapProvider(config.geocoderUrl || DEFAULT_GEOCODER_URL);
+    case 'mock':
+      return createMockMapProvider();
+  }
+};
+
+let configured: MapProvider | undefined;
+
+export const getMapProvider = () => {
+  configured ??= createMapProvider({
+    provider: import.meta.env.VITE_MAP_PROVIDER,
+    googleMapsApiKey: import.meta.env.VITE_GOOGLE_MAPS_API_KEY,
+    geocoderUrl: import.meta.env.VITE_GEOCODER_URL,
+  });
+  return configured;
+};
@@ -0,0 +1,80 @@
+import type * as Leaflet from 'leaflet';
+import { DEFAULT_MAP_CENTER, MapProvider, PlaceSuggestion } from '@/lib/maps/types';
+
+// OpenStreetMap tiles drawn with Leaflet, with search from a Nominatim-compatible
+// geocoder. No API key needed. Leaflet is split into its own chunk, so it only
+// costs a download when the course search is opened.
+
+const TILE_URL = 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png';
+const TILE_ATTRIBUTION = '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
+
+interface NominatimResult {
+  place_id: number;
+  lat: string;
+  lon: string;
+  name?: string;
+  display_name: string;
+}
+
+let leaflet: typeof Leaflet | undefined;
+
+const importLeaflet = async () => {
+  const [{ default: L }, iconUrl, iconRetinaUrl, shadowUrl] = await Promise.all([
+    import('leaflet'),
+    import('leaflet/dist/images/marker-icon.png'),
+    import('leaflet/dist/images/marker-icon-2x.png'),
+    import('leaflet/dist/images/marker-shadow.png'),
+    import('leaflet/dist/leaflet.css'),
+  ]);
+  // Leaflet finds its marker images relative to its stylesheet, which bundling breaks
+  L.Icon.Default.mergeOptions({ iconUrl: iconUrl.default, iconRetinaUrl: iconRetinaUrl.default, shadowUrl: shadowUrl.default });
+  return L;
+};
+
+export const createLeafletMapProvider = (geocoderUrl: string): MapProvider => ({
+  id: 'osm',
+
+  // Tiles and search need the network, so the map isn't offered offline
+  load: async () => {
+    if (!navigator.onLine) throw new Error('Maps are unavailable offline');
+    leaflet ??= await importLeaflet();
+  },
+
+  createMap: (container, onPick) => {
+    const L = leaflet;
+    const map = L.map(container).setView([DEFAULT_MAP_CENTER.lat, DEFAULT_MAP_CENTER.lng], 10);
+    L.tileLayer(TILE_URL, { attribution: TILE_ATTRIBUTION, maxZoom: 19 }).addTo(map);
+    if (onPick) map.on('click', ({ latlng }) => onPick({ lat: latlng.lat, lng: latlng.lng }));
+    let marker: Leaflet.Marker | undefined;
+
+    return {
+      showLocation: ({ lat, lng, name }) => {
+        map.setView([lat, lng], 15);
+        marker?.remove();
+        marker = L.marker([lat, lng], { title: name }).addTo(map);
+      },
+      destroy: () => map.remove(),
+    };
+  },
+
+  search: async (query) => {
+    const params = new URLSearchParams({ q: query, format: 'jsonv2', limit: '8' });
+    const response = await fetch(`${geocoderUrl}/search?${params}`, { headers: { Accept: 'application/json' } });
+    if (!response.ok) throw new Error(`Place search failed (${response.status})`);
+    const results: NominatimResult[] = await response.json();
+    return results.map((result): PlaceSuggestion => ({
+      id: result.place_id.toString(),
+      description: result.display_name,
+      location: {
+        name: result.name || result.display_name.split(',')[0],
+        address: result.display_name,
+        lat: parseFloat(result.lat),
+        lng: parseFloat(result.lon),
+      },
+    }));
+  },
+
+  getLocation: async (suggestion) => suggestion.location ?? null,
+
+  getExternalUrl: ({ lat, lng }) => `https://www.openstreetmap.org/?mlat=${lat}&mlon=${lng}#map=16/${lat}/${lng}`,
+});
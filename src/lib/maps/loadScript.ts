@@ -0,0 +1,39 @@
+const LOAD_TIMEOUT_MS = 10_000;
+
+// Adds a third-party script once. Fails straight away when offline, and after a
+// timeout when the script never arrives, so callers can offer another way in.
+export const loadScript = (id: string, src: string): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (!navigator.onLine) {
+      reject(new Error('Maps are unavailable offline'));
+      return;
+    }
+
+    const existing = document.getElementById(id) as HTMLScriptElement | null;
+    if (existing?.dataset.loaded) {
+      resolve();
+      return;
+    }
+
+    const script = existing ?? document.createElement('script');
+    const fail = () => {
+      window.clearTimeout(timeout);
+      script.remove(); // Lets a retry add the script again
+      reject(new Error(`Failed to load ${src}`));
+    };
+    const timeout = window.setTimeout(fail, LOAD_TIMEOUT_MS);
+    script.addEventListener('load', () => {
+      window.clearTimeout(timeout);
+      script.dataset.loaded = 'true';
+      resolve();
+    });
+    script.addEventListener('error', fail);
+
+    if (existing) return;
+    script.id = id;
+    script.src = src;
+    script.async = true;
+    script.defer = true;
+    document.head.appendChild(script);
+  });
+};
@@ -0,0 +1,43 @@
+import { CourseLocation, DEFAULT_MAP_CENTER, MapProvider } from '@/lib/maps/types';
+
+// Offline provider with a few made-up courses, for tests and for working on the
+// course flow without network access. The "map" is a plain text panel; tapping
+// it picks the default map center.
+
+export const MOCK_COURSES: CourseLocation[] = [
+  { name: 'Oakmere Golf Club', address: '1 Fairway Lane, Oakmere', lat: 51.52, lng: -0.11 },
+  { name: 'Heather Links', address: '12 Dune Road, Sandbay', lat: 50.72, lng: -1.88 },
+  { name: 'Riverside Golf Course', address: '40 Mill Street, Riverton', lat: 52.2, lng: 0.12 },
+];
+
+export const createMockMapProvider = (courses: CourseLocation[] = MOCK_COURSES): MapProvider => ({
+  id: 'mock',
+
+  load: async () => {},
+
+  createMap: (container, onPick) => {
+    const label = document.createElement('div');
+    label.className = 'h-full flex items-center justify-center text-sm text-muted-foreground';
+    label.textContent = 'Map preview unavailable';
+    if (onPick) label.onclick = () => onPick(DEFAULT_MAP_CENTER);
+    container.appendChild(label);
+
+    return {
+      showLocation: ({ name, lat, lng }) => {
+        label.textContent = `${name} (${lat.toFixed(3)}, ${lng.toFixed(3)})`;
+      },
+      destroy: () => label.remove(),
+    };
+  },
+
+  search: async (query) => {
+    const term = query.trim().toLowerCase();
+    return courses
+      .filter(course => course.name.toLowerCase().includes(term) || course.address.toLowerCase().includes(term))
+      .map((course, index) => ({ id: `mock-${index}`, description: `${course.name}, ${course.address}`, location: course }));
+  },
+
+  getLocation: async (suggestion) => suggestion.location ?? null,
+
+  getExternalUrl: ({ lat, lng }) => `https://www.openstreetmap.org/?mlat=${lat}&mlon=${lng}`,
+});
@@ -0,0 +1,36 @@
+// Map and place search behind one interface, so the course search works with
+// Google Maps, OpenStreetMap or the offline mock (see `./index.ts`).
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface CourseLocation extends LatLng {
+  name: string;
+  address: string;
+}
+
+export interface PlaceSuggestion {
+  id: string;
+  description: string;
+  location?: CourseLocation; // Set by providers whose search already returns coordinates
+}
+
+export interface MapView {
+  showLocation: (location: CourseLocation) => void;
+  destroy: () => void;
+}
+
+export interface MapProvider {
+  id: MapProviderId;
+  load: () => Promise<void>; // Rejects when the provider can't be used, e.g. offline
+  createMap: (container: HTMLElement, onPick?: (point: LatLng) => void) => MapView; // onPick: the map was tapped
+  search: (query: string) => Promise<PlaceSuggestion[]>;
+  getLocation: (suggestion: PlaceSuggestion) => Promise<CourseLocation | null>;
+  getExternalUrl: (location: CourseLocation) => string; // The location in the provider's own site
+}
+
+export type MapProviderId = 'google' | 'osm' | 'mock';
+
+export const DEFAULT_MAP_CENTER = { lat: 51.5074, lng: -0.1278 }; // London
@@ -0,0 +1,103 @@
+import { MatchResult, Round } from '@/types/golf';
+import { getHoleWinningSides, getRoundSides, RoundSide } from '@/lib/teams';
+
+// Match play between two sides (players or teams). A hole won outright moves the
+// match one hole; tied or empty holes are halved.
+
+export interface MatchStatus {
+  leaderId?: string; // Side id, undefined when all square
+  lead: number;
+  holesPlayed: number;
+  holesRemaining: number;
+  closedOut: boolean; // Lead is bigger than the holes left
+  dormie: boolean; // Lead equals the holes left
+}
+
+export const isMatchPlayable = (round: Round) => getRoundSides(round).length === 2;
+
+export const getMatchStatus = (round: Round, totalHoles: number): MatchStatus => {
+  const sides = getRoundSides(round);
+  const score: Record<string, number> = {};
+  sides.forEach(side => { score[side.id] = 0; });
+
+  let holesPlayed = 0;
+  for (const hole of [...round.holeResults].sort((a, b) => a.holeNumber - b.holeNumber)) {
+    const winners = getHoleWinningSides(round, hole);
+    if (winners.length === 1) score[winners[0]] = (score[winners[0]] || 0) + 1;
+    holesPlayed++;
+
+    // Holes recorded after the match was decided don't change it
+    const [a, b] = sides.map(side => score[side.id]);
+    if (Math.abs(a - b) > totalHoles - holesPlayed) break;
+  }
+
+  const [first, second] = sides;
+  const difference = (score[first?.id] ?? 0) - (score[second?.id] ?? 0);
+  const lead = Math.abs(difference);
+  const holesRemaining = Math.max(0, totalHoles - holesPlayed);
+
+  return {
+    leaderId: difference > 0 ? first.id : difference < 0 ? second.id : undefined,
+    lead,
+    holesPlayed,
+    holesRemaining,
+    closedOut: lead > holesRemaining,
+    dormie: lead > 0 && lead === holesRemaining,
+  };
+};
+
+// Final result notation: "3&2" when closed out early, otherwise "2 UP", or halved
+export const getMatchResult = (status: MatchStatus): MatchResult => {
+  if (!status.leaderId) return { result: 'Halved' };
+  const result = status.closedOut && status.holesRemaining > 0
+    ? `${status.lead}&${status.holesRemaining}`
+    : `${status.lead} UP`;
+  return { winnerId: status.leaderId, result };
+};
+
+export const formatMatchStatus = (status: MatchStatus, sides: Array<RoundSide & { label: string }>) => {
+  const leader = sides.find(side => side.id === status.leaderId);
+  if (status.closedOut && leader) return `${leader.label} wins ${getMatchResult(status).result}`;
+  if (!leader) {
+    if (status.holesPlayed === 0) return 'All square';
+    return status.holesRemaining === 0 ? 'Match halved' : `All square with ${status.holesRemaining} to play`;
+  }
+  if (status.dormie) return `${leader.label} ${status.lead} UP (dormie)`;
+  return `${leader.label} ${status.lead} UP with ${status.holesRemaining} to play`;
+};
+
+export interface MatchRecord {
+  playerId: string;
+  played: number;
+  won: number;
+  lost: number;
+  halved: number;
+}
+
+// Win/loss/halved records from completed match play rounds. Team members share the team's result.
+export const getMatchRecords = (rounds: Round[], playerIds: string[]): MatchRecord[] => {
+  const records: Record<string, MatchRecord> = {};
+  playerIds.forEach(playerId => {
+    records[playerId] = { playerId, played: 0, won: 0, lost: 0, halved: 0 };
+  });
+
+  rounds.forEach(round => {
+    if (round.format !== 'match' || !round.completedAt || !round.matchResult) return;
+    const { winnerId } = round.matchResult;
+
+    getRoundSides(round).forEach(side => {
+      side.playerIds.forEach(playerId => {
+        const record = records[playerId];
+        if (!record) return;
+        record.played++;
+        if (!winnerId) record.halved++;
+        else if (winnerId === side.id) record.won++;
+        else record.lost++;
+      });
+    });
+  });
+
+  return Object.values(records)
+    .filter(record => record.played > 0)
+    .sort((a, b) => b.won - a.won || a.lost - b.lost);
+};
@@ -0,0 +1,51 @@
+import { RawGolfData, SCHEMA_VERSION } from '@/lib/schema';
+
+// Ordered migration steps. Each step upgrades stored data from `version - 1`
+// to `version`; steps run on raw (unvalidated) records before schema validation.
+export interface Migration {
+  version: number;
+  description: string;
+  migrate: (data: RawGolfData) => RawGolfData;
+}
+
+type RawRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is RawRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Default missing hole-in-one lists on hole results saved by early versions',
+    migrate: data => ({
+      ...data,
+      rounds: data.rounds.map(round => {
+        if (!isRecord(round) || !Array.isArray(round.holeResults)) return round;
+        return {
+          ...round,
+          holeResults: round.holeResults.map(hole =>
+            isRecord(hole) && hole.holeInOnePlayerIds === undefined
+              ? { ...hole, holeInOnePlayerIds: [] }
+              : hole
+          ),
+        };
+      }),
+    }),
+  },
+];
+
+// Data saved by a newer version of the app, which this one can't read
+export class NewerSchemaVersionError extends Error {
+  constructor(readonly storedVersion: number) {
+    super(`Stored data uses schema version ${storedVersion}, but this app only supports up to ${SCHEMA_VERSION}`);
+  }
+}
+
+export const runMigrations = (data: RawGolfData, fromVersion: number): RawGolfData => {
+  if (fromVersion > SCHEMA_VERSION) throw new NewerSchemaVersionError(fromVersion);
+
+  return MIGRATIONS
+    .filter(migration => migration.version > fromVersion && migration.version <= SCHEMA_VERSION)
+    .sort((a, b) => a.version - b.version)
+    .reduce((current, migration) => migration.migrate(current), data);
+};
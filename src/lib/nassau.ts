@@ -0,0 +1,94 @@
+import { NassauSegment, Round } from '@/types/golf';
+import { getMatchStatus, MatchStatus } from '@/lib/matchPlay';
+import { getHoleWinningSides, getRoundSides } from '@/lib/teams';
+
+// Nassau: three match play bets between two sides, one on each nine and one on
+// the whole round. With presses on, a side that falls two down in a bet starts
+// a new bet (a press) from the next hole to the end of that nine.
+
+export interface NassauBet extends NassauSegment {
+  label: string;
+  press: boolean;
+  status: MatchStatus;
+}
+
+const PRESS_TRIGGER = 2;
+
+// The nines follow the course: each half of an 18-hole course, or each pass over a
+// 9-hole one. Rounds that go round again keep counting nines from the first hole.
+export const getNassauSegments = (holeCount: number, holesPerCourse: number): NassauSegment[] => {
+  const nine = holesPerCourse > 9 ? Math.ceil(holesPerCourse / 2) : Math.max(1, holesPerCourse);
+  const segments: NassauSegment[] = [];
+  for (let startHole = 1; startHole <= holeCount; startHole += nine) {
+    segments.push({ startHole, endHole: Math.min(startHole + nine - 1, holeCount) });
+  }
+  return segments;
+};
+
+const getSegmentLabel = (segment: NassauSegment, index: number, count: number) => {
+  if (count === 2) return index === 0 ? 'Front' : 'Back';
+  return `Holes ${segment.startHole}–${segment.endHole}`;
+};
+
+const getBetStatus = (round: Round, segment: NassauSegment) =>
+  getMatchStatus(
+    { ...round, holeResults: round.holeResults.filter(h => h.holeNumber >= segment.startHole && h.holeNumber <= segment.endHole) },
+    segment.endHole - segment.startHole + 1
+  );
+
+// Hole after which a bet first has a side two down, if that leaves holes to press on
+const getPressStart = (round: Round, segment: NassauSegment) => {
+  const [first] = getRoundSides(round);
+  let difference = 0;
+  const holes = round.holeResults
+    .filter(h => h.holeNumber >= segment.startHole && h.holeNumber < segment.endHole)
+    .sort((a, b) => a.holeNumber - b.holeNumber);
+
+  for (const hole of holes) {
+    const winners = getHoleWinningSides(round, hole);
+    if (winners.length === 1) difference += winners[0] === first?.id ? 1 : -1;
+    if (Math.abs(difference) >= PRESS_TRIGGER) return hole.holeNumber + 1;
+  }
+  return undefined;
+};
+
+// Every bet of a Nassau round in play order: each nine followed by its presses, then the
+// overall bet. A round of a single nine has just the one bet and its presses.
+export const getNassauBets = (round: Round): NassauBet[] => {
+  const segments = round.nassau?.segments ?? [];
+  if (segments.length === 0) return [];
+
+  const bets: NassauBet[] = [];
+  segments.forEach((segment, index) => {
+    const label = getSegmentLabel(segment, index, segments.length);
+    bets.push({ ...segment, label, press: false, status: getBetStatus(round, segment) });
+
+    // Each bet presses at most once; presses can be pressed in turn
+    let pressStart = round.nassau.presses ? getPressStart(round, segment) : undefined;
+    while (pressStart !== undefined) {
+      const press = { startHole: pressStart, endHole: segment.endHole };
+      bets.push({ ...press, label: `${label} press (from ${pressStart})`, press: true, status: getBetStatus(round, press) });
+      pressStart = getPressStart(round, press);
+    }
+  });
+
+  if (segments.length === 1) return bets;
+  const overall = { startHole: segments[0].startHole, endHole: segments[segments.length - 1].endHole };
+  bets.push({ ...overall, label: 'Overall', press: false, status: getBetStatus(round, overall) });
+  return bets;
+};
+
+// Winning side of a finished bet; undefined while in play or when halved
+export const getNassauBetWinner = (bet: NassauBet) =>
+  bet.status.closedOut || bet.status.holesRemaining === 0 ? bet.status.leaderId : undefined;
+
+// Bets won per side
+export const getNassauBetsWon = (round: Round) => {
+  const won: Record<string, number> = {};
+  getRoundSides(round).forEach(side => { won[side.id] = 0; });
+  getNassauBets(round).forEach(bet => {
+    const winnerId = getNassauBetWinner(bet);
+    if (winnerId) won[winnerId] = (won[winnerId] || 0) + 1;
+  });
+  return won;
+};
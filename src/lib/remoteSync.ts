@@ -0,0 +1,145 @@
+import { GolfData, HoleResult, Round, RoundCorrection, Season } from '@/types/golf';
+import type { StoreName } from '@/lib/storage';
+
+// Multi-device sync through a self-hosted server (`npm run sync-server`). Each
+// season is synced on its own: a device pushes the records it changed and gets
+// back whatever other devices pushed since the last revision it saw. A round
+// saved on two devices at once is merged hole by hole, keeping the later save
+// of each hole. Shared by the client adapter and the server.
+
+type DataRecord = { id: string };
+
+export interface RemoteRecord {
+  store: StoreName;
+  id: string;
+  record?: DataRecord; // Missing when the record was deleted
+  revision: number;
+}
+
+export interface PushedChange {
+  store: StoreName;
+  id: string;
+  record?: DataRecord;
+  baseRevision: number; // Revision of the record the device last saw, 0 if never
+}
+
+export interface SeasonSyncRequest {
+  deviceId: string;
+  since: number; // Season revision the device last saw
+  changes: PushedChange[];
+}
+
+export interface SeasonSyncResponse {
+  revision: number;
+  records: RemoteRecord[]; // Everything newer than `since`, including the merged pushes
+}
+
+export interface SeasonSummary {
+  id: string;
+  revision: number;
+}
+
+// Server-side state of one season
+export interface SeasonSpace {
+  revision: number;
+  records: Record<string, RemoteRecord>;
+}
+
+export const createSeasonSpace = (): SeasonSpace => ({ revision: 0, records: {} });
+
+export const getRemoteKey = (record: { store: StoreName; id: string }) => `${record.store}:${record.id}`;
+
+const byHoleNumber = (a: HoleResult, b: HoleResult) => a.holeNumber - b.holeNumber;
+
+// Keeps every hole either side recorded. Where both saved a hole, the later save wins,
+// and `incoming` wins ties.
+export const mergeHoleResults = (current: HoleResult[], incoming: HoleResult[]): HoleResult[] => {
+  const merged = new Map(current.map(hole => [hole.holeNumber, hole]));
+  incoming.forEach(hole => {
+    const existing = merged.get(hole.holeNumber);
+    if (!existing || (hole.updatedAt ?? '') >= (existing.updatedAt ?? '')) merged.set(hole.holeNumber, hole);
+  });
+  return [...merged.values()].sort(byHoleNumber);
+};
+
+const mergeCorrections = (current: RoundCorrection[] = [], incoming: RoundCorrection[] = []) => {
+  const ids = new Set(incoming.map(correction => correction.id));
+  const merged = [...current.filter(correction => !ids.has(correction.id)), ...incoming]
+    .sort((a, b) => a.correctedAt.localeCompare(b.correctedAt));
+  return merged.length ? merged : undefined;
+};
+
+// Round details come from `incoming`; holes and corrections are combined
+export const mergeRounds = (current: Round, incoming: Round): Round => ({
+  ...incoming,
+  holeResults: mergeHoleResults(current.holeResults, incoming.holeResults),
+  corrections: mergeCorrections(current.corrections, incoming.corrections),
+});
+
+// Applies a device's push as one new revision. A record changed by another device
+// since this one last saw it is a conflict: rounds are merged, anything else takes
+// the pushed value.
+export const applySeasonPush = (space: SeasonSpace, changes: PushedChange[]): SeasonSpace => {
+  if (changes.length === 0) return space;
+
+  const revision = space.revision + 1;
+  const records = { ...space.records };
+  changes.forEach(change => {
+    const key = getRemoteKey(change);
+    const current = records[key];
+    const conflicting = !!current && current.revision > change.baseRevision;
+    const record = conflicting && change.store === 'rounds' && current.record && change.record
+      ? mergeRounds(current.record as Round, change.record as Round)
+      : change.record;
+    records[key] = { store: change.store, id: change.id, record, revision };
+  });
+  return { revision, records };
+};
+
+export const getRecordsSince = (space: SeasonSpace, since: number): RemoteRecord[] =>
+  Object.values(space.records).filter(record => record.revision > since);
+
+// Seasons a changed record belongs to. Players and courses belong to every season
+// that uses them; ones no season uses yet are sent along with the round or season
+// that first does (see `getPushedRecords`).
+export const getRecordSeasonIds = (store: StoreName, record: DataRecord, data: GolfData): string[] => {
+  switch (store) {
+    case 'seasons':
+      return [record.id];
+    case 'rounds':
+      return [(record as Round).seasonId];
+    case 'players':
+      return data.seasons.filter(season => season.playerIds.includes(record.id)).map(season => season.id);
+    case 'courses':
+      return [...new Set(data.rounds.filter(round => round.courseId === record.id).map(round => round.seasonId))];
+  }
+};
+
+// Everything a season holds locally, for a device that hasn't synced it with the
+// server yet. `getPushedRecords` adds the players and courses.
+export const getSeasonRecordKeys = (seasonId: string, data: GolfData): Array<{ store: StoreName; id: string }> => [
+  { store: 'seasons', id: seasonId },
+  ...data.rounds.filter(round => round.seasonId === seasonId).map(round => ({ store: 'rounds' as const, id: round.id })),
+];
+
+// The queued records of a season with their current values, plus the course of
+// each round and the players of the season so other devices can show them
+export const getPushedRecords = (
+  keys: Array<{ store: StoreName; id: string }>,
+  data: GolfData
+): Array<{ store: StoreName; id: string; record?: DataRecord }> => {
+  const pushed = new Map<string, { store: StoreName; id: string; record?: DataRecord }>();
+  const find = (store: StoreName, id: string) => (data[store] as DataRecord[]).find(r => r.id === id);
+  const addRelated = (store: StoreName, id: string) => {
+    const record = find(store, id);
+    if (record) pushed.set(getRemoteKey({ store, id }), { store, id, record });
+  };
+
+  keys.forEach(({ store, id }) => {
+    const record = find(store, id);
+    pushed.set(getRemoteKey({ store, id }), { store, id, record });
+    if (store === 'rounds' && record) addRelated('courses', (record as Round).courseId);
+    if (store === 'seasons' && record) (record as Season).playerIds.forEach(playerId => addRelated('players', playerId));
+  });
+  return [...pushed.values()];
+};
@@ -0,0 +1,169 @@
+import { Course, GameFormat, HoleResult, Round, Season, StablefordTable, Team, WolfChoice } from '@/types/golf';
+import { getHoleNetStrokes } from '@/lib/handicap';
+import { calculateHoleStablefordPoints } from '@/lib/stableford';
+import { deriveWinnersFromStrokes, hasStrokes } from '@/lib/strokes';
+import { getBetterBallStrokes, getTeamMemberIds, hasValidTeams, isTeamRound } from '@/lib/teams';
+
+// Turning what was entered for a hole into its HoleResult, shared by live
+// scoring and corrections to finished rounds.
+
+export interface HoleEntry {
+  holeNumber: number;
+  winners: string[]; // Side ids picked by hand; ignored when strokes are entered
+  strokes?: Record<string, number>; // Per player, or per team in a scramble
+  holeInOnePlayerIds: string[];
+  par?: number; // Stableford rounds
+  wolf?: WolfChoice; // Wolf rounds
+}
+
+export const GAME_FORMAT_LABELS: Record<GameFormat, string> = {
+  holes: 'Holes Won',
+  skins: 'Skins',
+  match: 'Match Play',
+  stableford: 'Stableford',
+  wolf: 'Wolf',
+  nassau: 'Nassau',
+};
+
+export const isScrambleRound = (round: Round) => isTeamRound(round) && round.teamFormat === 'scramble';
+
+export const isRoundInProgress = (round: Round) => !round.completedAt && !round.abandonedAt;
+
+// Stableford seasons default their rounds to Stableford
+export const getRoundFormatDefaults = (
+  season: Season | undefined,
+  format: GameFormat | undefined,
+  stablefordTable: StablefordTable | undefined
+): { format: GameFormat; stablefordTable: StablefordTable } => {
+  const seasonStableford = season?.rules?.stableford;
+  return {
+    format: format ?? (seasonStableford ? 'stableford' : 'holes'),
+    stablefordTable: stablefordTable ?? seasonStableford ?? 'standard',
+  };
+};
+
+export interface RoundSetupProblem {
+  title: string;
+  description: string;
+}
+
+// Why a round can't start with these players and teams, checked before anything is saved
+export const getRoundSetupProblem = (
+  format: GameFormat,
+  playerIds: string[],
+  teams: Team[] | undefined
+): RoundSetupProblem | undefined => {
+  if ((format === 'match' || format === 'nassau') && (teams?.length ?? playerIds.length) !== 2) {
+    return {
+      title: `${format === 'nassau' ? 'Nassau' : 'Match play'} needs two sides`,
+      description: 'Play a match between two players or two teams.',
+    };
+  }
+  if (format === 'wolf' && (teams || playerIds.length < 3)) {
+    return {
+      title: 'Wolf needs three or more players',
+      description: 'Everyone plays their own ball, so leave the teams off.',
+    };
+  }
+  if (teams && !hasValidTeams(teams, playerIds)) {
+    return {
+      title: 'Check the teams',
+      description: 'Every player needs a team, and each team needs a name and at least one player.',
+    };
+  }
+  return undefined;
+};
+
+// Holes the round is played over: as planned when it started (older rounds fall back
+// to the course's holes), or more if more were recorded
+export const getRoundHoleCount = (round: Round, course: Course | undefined) =>
+  Math.max(round.holeCount ?? course?.holesPerCourse ?? 18, ...round.holeResults.map(h => h.holeNumber));
+
+// Sides with the fewest strokes (net when the round uses handicaps).
+// Better-ball teams score their best member; scramble teams enter one score.
+export const getHoleStrokeWinners = (
+  round: Round,
+  course: Course | undefined,
+  holeNumber: number,
+  strokes: Record<string, number>
+) => {
+  if (isScrambleRound(round)) return deriveWinnersFromStrokes(strokes);
+  const scores = round.netScoring ? getHoleNetStrokes(strokes, round, course, holeNumber) : strokes;
+  return deriveWinnersFromStrokes(isTeamRound(round) ? getBetterBallStrokes(round.teams, scores) : scores);
+};
+
+export const createHoleResult = (round: Round, course: Course | undefined, entry: HoleEntry): HoleResult => {
+  const { holeNumber, holeInOnePlayerIds } = entry;
+  const winners = entry.strokes ? getHoleStrokeWinners(round, course, holeNumber, entry.strokes) : entry.winners;
+
+  // Winners are team ids in team rounds, credited to every member
+  const result: HoleResult = isTeamRound(round)
+    ? { holeNumber, winnerIds: getTeamMemberIds(round.teams, winners), winnerTeamIds: winners, holeInOnePlayerIds }
+    : { holeNumber, winnerIds: winners, holeInOnePlayerIds, wolf: entry.wolf };
+
+  if (!entry.strokes) return result;
+  const strokeResult = isScrambleRound(round)
+    ? { ...result, teamStrokes: entry.strokes }
+    : { ...result, strokes: entry.strokes };
+  if (round.format !== 'stableford') return strokeResult;
+
+  const stablefordResult = { ...strokeResult, par: entry.par };
+  return { ...stablefordResult, stablefordPoints: calculateHoleStablefordPoints(round, course, stablefordResult) };
+};
+
+// The round as if it were played off handicaps: holes with strokes are scored again
+// on net strokes, using the course handicaps captured when the round started.
+// Scrambles have no individual handicaps and keep their gross result.
+export const getNetRound = (round: Round, course: Course | undefined): Round => {
+  if (round.netScoring || isScrambleRound(round) || !round.handicaps) return round;
+
+  const netRound: Round = { ...round, netScoring: true };
+  return {
+    ...netRound,
+    holeResults: round.holeResults.map(hole => {
+      if (!hasStrokes(hole)) return hole;
+      const { holeNumber, strokes, holeInOnePlayerIds, par, wolf } = hole;
+      return { ...hole, ...createHoleResult(netRound, course, { holeNumber, winners: [], strokes, holeInOnePlayerIds, par, wolf }) };
+    }),
+  };
+};
+
+// Readable list of what a correction changed on a hole
+export const describeHoleChanges = (
+  before: HoleResult | undefined,
+  after: HoleResult,
+  getName: (id: string) => string
+): string[] => {
+  const names = (ids: string[] | undefined) => (ids?.length ? ids.map(getName).join(', ') : 'none');
+  const changes: string[] = [];
+
+  const winnersBefore = before?.winnerTeamIds ?? before?.winnerIds;
+  const winnersAfter = after.winnerTeamIds ?? after.winnerIds;
+  if (names(winnersBefore) !== names(winnersAfter)) {
+    changes.push(`Winners: ${names(winnersBefore)} → ${names(winnersAfter)}`);
+  }
+
+  const strokesBefore = { ...before?.strokes, ...before?.teamStrokes };
+  const strokesAfter = { ...after.strokes, ...after.teamStrokes };
+  new Set([...Object.keys(strokesBefore), ...Object.keys(strokesAfter)]).forEach(id => {
+    if (strokesBefore[id] !== strokesAfter[id]) {
+      changes.push(`${getName(id)}: ${strokesBefore[id] ?? '–'} → ${strokesAfter[id] ?? '–'} strokes`);
+    }
+  });
+
+  if (names(before?.holeInOnePlayerIds) !== names(after.holeInOnePlayerIds)) {
+    changes.push(`Hole-in-one: ${names(before?.holeInOnePlayerIds)} → ${names(after.holeInOnePlayerIds)}`);
+  }
+  if (before?.par !== after.par && after.par) {
+    changes.push(`Par: ${before?.par ?? '–'} → ${after.par}`);
+  }
+  const partner = (wolf: WolfChoice | undefined) => (!wolf ? '–' : wolf.partnerId ? getName(wolf.partnerId) : 'lone wolf');
+  if (partner(before?.wolf) !== partner(after.wolf)) {
+    changes.push(`Wolf partner: ${partner(before?.wolf)} → ${partner(after.wolf)}`);
+  }
+  return changes;
+};
+
+// Whether saving an entry would change the hole, ignoring when it was last saved
+export const isHoleResultChanged = (before: HoleResult | undefined, after: HoleResult) =>
+  !before || describeHoleChanges(before, after, id => id).length > 0;
@@ -0,0 +1,173 @@
+import { z } from 'zod';
+import { GolfData } from '@/types/golf';
+import type { StoreName } from '@/lib/storage';
+
+// Version of the persisted data shape. Bump it together with a new step in
+// `src/lib/migrations.ts` whenever a stored entity changes incompatibly.
+export const SCHEMA_VERSION = 1;
+
+export const playerSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  avatar: z.string().optional(),
+  createdAt: z.string(),
+});
+
+export const scoringRulesSchema = z.object({
+  pointsPerHole: z.number().nonnegative(),
+  tieMode: z.enum(['full', 'split']),
+  holeInOneBonus: z.number().nonnegative(),
+  roundWinPoints: z.number().nonnegative(),
+  stableford: z.enum(['standard', 'modified']).optional(),
+});
+
+export const stakesSchema = z.object({
+  perHole: z.number().nonnegative(),
+  perSkin: z.number().nonnegative(),
+  perNassauBet: z.number().nonnegative(),
+  perPoint: z.number().nonnegative(),
+});
+
+export const seasonSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  playerIds: z.array(z.string()),
+  rules: scoringRulesSchema.optional(),
+  stakes: stakesSchema.optional(),
+  status: z.enum(['active', 'completed']),
+  createdAt: z.string(),
+  completedAt: z.string().optional(),
+});
+
+export const courseTeeSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+});
+
+export const courseHoleSchema = z.object({
+  number: z.number().int().positive(),
+  par: z.number().int().min(2).max(7),
+  strokeIndex: z.number().int().positive().optional(),
+  distances: z.record(z.number().nonnegative()),
+});
+
+export const courseSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  location: z.string().optional(),
+  coordinates: z.object({ lat: z.number().min(-90).max(90), lng: z.number().min(-180).max(180) }).optional(),
+  numberOfCourses: z.number().int().positive(),
+  holesPerCourse: z.number().int().positive(),
+  tees: z.array(courseTeeSchema).optional(),
+  holes: z.array(courseHoleSchema).optional(),
+  distanceUnit: z.enum(['yards', 'meters']).optional(),
+  courseRating: z.number().positive().optional(),
+  slopeRating: z.number().min(55).max(155).optional(),
+  createdAt: z.string(),
+});
+
+export const holeResultSchema = z.object({
+  holeNumber: z.number().int().positive(),
+  winnerIds: z.array(z.string()),
+  holeInOnePlayerIds: z.array(z.string()),
+  strokes: z.record(z.number().int().positive()).optional(),
+  winnerTeamIds: z.array(z.string()).optional(),
+  teamStrokes: z.record(z.number().int().positive()).optional(),
+  par: z.number().int().positive().optional(),
+  stablefordPoints: z.record(z.number().int()).optional(),
+  wolf: z.object({ wolfId: z.string(), partnerId: z.string().optional() }).optional(),
+  updatedAt: z.string().optional(),
+});
+
+export const roundCorrectionSchema = z.object({
+  id: z.string().min(1),
+  holeNumber: z.number().int().positive(),
+  before: holeResultSchema.optional(),
+  after: holeResultSchema,
+  note: z.string().optional(),
+  correctedAt: z.string(),
+});
+
+export const teamSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  playerIds: z.array(z.string()),
+});
+
+export const roundSchema = z.object({
+  id: z.string().min(1),
+  seasonId: z.string(),
+  courseId: z.string(),
+  playerIds: z.array(z.string()),
+  holeResults: z.array(holeResultSchema),
+  handicaps: z.record(z.number().int()).optional(),
+  netScoring: z.boolean().optional(),
+  format: z.enum(['holes', 'skins', 'match', 'stableford', 'wolf', 'nassau']).optional(),
+  teams: z.array(teamSchema).optional(),
+  teamFormat: z.enum(['betterBall', 'scramble']).optional(),
+  matchResult: z.object({ winnerId: z.string().optional(), result: z.string() }).optional(),
+  stablefordTable: z.enum(['standard', 'modified']).optional(),
+  nassau: z.object({
+    segments: z.array(z.object({ startHole: z.number().int().positive(), endHole: z.number().int().positive() })),
+    presses: z.boolean(),
+  }).optional(),
+  stakes: stakesSchema.optional(),
+  corrections: z.array(roundCorrectionSchema).optional(),
+  holeCount: z.number().int().positive().optional(),
+  startedAt: z.string(),
+  completedAt: z.string().optional(),
+  abandonedAt: z.string().optional(),
+  abandonReason: z.string().optional(),
+});
+
+export const entitySchemas: Record<StoreName, z.ZodTypeAny> = {
+  players: playerSchema,
+  seasons: seasonSchema,
+  courses: courseSchema,
+  rounds: roundSchema,
+};
+
+// A stored record that failed validation, kept aside instead of being dropped
+export interface QuarantinedRecord {
+  id: string;
+  store: StoreName;
+  record: unknown;
+  reason: string;
+  schemaVersion: number;
+  quarantinedAt: string;
+}
+
+export type RawGolfData = Record<StoreName, unknown[]>;
+
+const describeIssues = (error: z.ZodError) =>
+  error.issues
+    .map(issue => `${issue.path.length ? issue.path.join('.') : '(root)'}: ${issue.message}`)
+    .join('; ');
+
+export const validateGolfData = (raw: RawGolfData) => {
+  const data: GolfData = { players: [], seasons: [], courses: [], rounds: [] };
+  const quarantined: QuarantinedRecord[] = [];
+  const quarantinedAt = new Date().toISOString();
+
+  (Object.keys(entitySchemas) as StoreName[]).forEach(store => {
+    const valid: unknown[] = [];
+    (raw[store] ?? []).forEach(record => {
+      const result = entitySchemas[store].safeParse(record);
+      if (result.success) {
+        valid.push(result.data);
+      } else {
+        quarantined.push({
+          id: crypto.randomUUID(),
+          store,
+          record,
+          reason: describeIssues(result.error),
+          schemaVersion: SCHEMA_VERSION,
+          quarantinedAt,
+        });
+      }
+    });
+    (data[store] as unknown[]) = valid;
+  });
+
+  return { data, quarantined };
+};
@@ -0,0 +1,65 @@
+import { HoleResult, Round } from '@/types/golf';
+import { hasStrokes } from '@/lib/strokes';
+
+// Scorecard totals per column (a player, or a team in a scramble): strokes when
+// the round records them, otherwise holes won.
+
+export interface ScorecardSection {
+  label: string;
+  startHole: number;
+  endHole: number;
+}
+
+// 18-hole rounds are subtotalled over the out and in nines
+export const getScorecardSections = (holeCount: number): ScorecardSection[] =>
+  holeCount === 18
+    ? [
+      { label: 'Out', startHole: 1, endHole: 9 },
+      { label: 'In', startHole: 10, endHole: 18 },
+    ]
+    : [{ label: 'Total', startHole: 1, endHole: holeCount }];
+
+const isHoleWinner = (hole: HoleResult, columnId: string) =>
+  hole.winnerIds.includes(columnId) || !!hole.winnerTeamIds?.includes(columnId);
+
+const getHoleValue = (hole: HoleResult, columnId: string, countStrokes: boolean) => {
+  if (!countStrokes) return isHoleWinner(hole, columnId) ? 1 : 0;
+  return { ...hole.strokes, ...hole.teamStrokes }[columnId] ?? 0;
+};
+
+export const getScorecardTotals = (
+  round: Round,
+  columnIds: string[],
+  startHole: number,
+  endHole: number
+): Record<string, number> => {
+  const countStrokes = round.holeResults.some(hasStrokes);
+  const totals: Record<string, number> = Object.fromEntries(columnIds.map(id => [id, 0]));
+  round.holeResults
+    .filter(hole => hole.holeNumber >= startHole && hole.holeNumber <= endHole)
+    .forEach(hole => {
+      columnIds.forEach(id => {
+        totals[id] += getHoleValue(hole, id, countStrokes);
+      });
+    });
+  return totals;
+};
+
+// Totals so far after each recorded hole, keyed by hole number
+export const getRunningTotals = (
+  round: Round,
+  columnIds: string[]
+): Record<number, Record<string, number>> => {
+  const countStrokes = round.holeResults.some(hasStrokes);
+  const running: Record<string, number> = Object.fromEntries(columnIds.map(id => [id, 0]));
+  const byHole: Record<number, Record<string, number>> = {};
+  [...round.holeResults]
+    .sort((a, b) => a.holeNumber - b.holeNumber)
+    .forEach(hole => {
+      columnIds.forEach(id => {
+        running[id] += getHoleValue(hole, id, countStrokes);
+      });
+      byHole[hole.holeNumber] = { ...running };
+    });
+  return byHole;
+};
@@ -0,0 +1,151 @@
+import { Round, ScoringRules, Season } from '@/types/golf';
+import { calculateSkins } from '@/lib/skins';
+import { getNassauBetsWon } from '@/lib/nassau';
+import { getSideStablefordTotals } from '@/lib/stableford';
+import { getHoleWinningSides, getRoundSides } from '@/lib/teams';
+import { getWolfPoints } from '@/lib/wolf';
+
+// Season points engine. Every page that shows points, round winners or
+// standings goes through these functions so the season's rules apply everywhere.
+
+export const DEFAULT_SCORING_RULES: ScoringRules = {
+  pointsPerHole: 1,
+  tieMode: 'full',
+  holeInOneBonus: 0,
+  roundWinPoints: 0,
+};
+
+export const getSeasonRules = (season: Season | undefined): ScoringRules =>
+  season?.rules ?? DEFAULT_SCORING_RULES;
+
+export const getRoundRules = (round: Round, seasons: Season[]): ScoringRules =>
+  getSeasonRules(seasons.find(s => s.id === round.seasonId));
+
+const share = (points: number, winners: number, rules: ScoringRules) =>
+  rules.tieMode === 'split' ? points / winners : points;
+
+// Hole points per side (player, or team in team rounds). Skins rounds award the
+// hole points per skin won instead of per hole, Stableford rounds score their
+// Stableford points, Wolf rounds scale the wolf points by the hole points and
+// Nassau rounds award the hole points per bet won; otherwise ties are between sides.
+export const getSidePoints = (round: Round, rules: ScoringRules = DEFAULT_SCORING_RULES) => {
+  const points: Record<string, number> = {};
+  getRoundSides(round).forEach(side => { points[side.id] = 0; });
+
+  if (round.format === 'skins') {
+    Object.entries(calculateSkins(round).skins).forEach(([sideId, skins]) => {
+      points[sideId] = (points[sideId] || 0) + skins * rules.pointsPerHole;
+    });
+  } else if (round.format === 'stableford') {
+    return { ...points, ...getSideStablefordTotals(round) };
+  } else if (round.format === 'nassau') {
+    Object.entries(getNassauBetsWon(round)).forEach(([sideId, bets]) => {
+      points[sideId] = (points[sideId] || 0) + bets * rules.pointsPerHole;
+    });
+  } else if (round.format === 'wolf') {
+    Object.entries(getWolfPoints(round)).forEach(([playerId, wolfPoints]) => {
+      points[playerId] = (points[playerId] || 0) + wolfPoints * rules.pointsPerHole;
+    });
+  } else {
+    round.holeResults.forEach(hole => {
+      const winners = getHoleWinningSides(round, hole);
+      winners.forEach(sideId => {
+        points[sideId] = (points[sideId] || 0) + share(rules.pointsPerHole, winners.length, rules);
+      });
+    });
+  }
+  return points;
+};
+
+// Points each player earned from the holes of a round (hole wins and hole-in-one bonuses).
+// Members of a team each get the team's hole points.
+export const getRoundPoints = (round: Round, rules: ScoringRules = DEFAULT_SCORING_RULES) => {
+  const points: Record<string, number> = {};
+  round.playerIds.forEach(id => { points[id] = 0; });
+  const add = (playerId: string, value: number) => {
+    points[playerId] = (points[playerId] || 0) + value;
+  };
+
+  const sidePoints = getSidePoints(round, rules);
+  getRoundSides(round).forEach(side => {
+    side.playerIds.forEach(playerId => add(playerId, sidePoints[side.id] ?? 0));
+  });
+
+  round.holeResults.forEach(hole => {
+    hole.holeInOnePlayerIds.forEach(playerId => add(playerId, rules.holeInOneBonus));
+  });
+
+  return points;
+};
+
+// Players with the most round points (ties allowed); nobody wins an unscored round.
+// A finished match is won by the match winner instead.
+export const getRoundWinners = (round: Round, rules: ScoringRules = DEFAULT_SCORING_RULES): string[] => {
+  if (round.format === 'match' && round.matchResult) {
+    const { winnerId } = round.matchResult;
+    return getRoundSides(round).find(side => side.id === winnerId)?.playerIds ?? [];
+  }
+  const points = getRoundPoints(round, rules);
+  const best = Math.max(...Object.values(points));
+  // Modified Stableford totals can be negative, so any scored Stableford round has a winner
+  const scored = round.format === 'stableford'
+    ? round.holeResults.some(hole => Object.keys(hole.stablefordPoints ?? {}).length > 0)
+    : best > 0;
+  if (!scored) return [];
+  return Object.entries(points).filter(([, score]) => score === best).map(([playerId]) => playerId);
+};
+
+// Round-win points per winner of a completed round. Tied teams share, team-mates don't.
+export const getRoundWinPoints = (round: Round, rules: ScoringRules = DEFAULT_SCORING_RULES) => {
+  if (!round.completedAt) return {};
+  const winners = getRoundWinners(round, rules);
+  const winningSides = getRoundSides(round).filter(side => side.playerIds.some(id => winners.includes(id)));
+  return Object.fromEntries(
+    winners.map(playerId => [playerId, share(rules.roundWinPoints, winningSides.length, rules)])
+  ) as Record<string, number>;
+};
+
+export interface SeasonStanding {
+  playerId: string;
+  points: number;
+  holesWon: number;
+  holeInOnes: number;
+  roundWins: number;
+}
+
+// Season totals over the given rounds. Round-win points are only awarded for completed rounds
+// and abandoned rounds don't count at all.
+export const getSeasonStandings = (
+  rounds: Round[],
+  rules: ScoringRules = DEFAULT_SCORING_RULES
+): SeasonStanding[] => {
+  const standings: Record<string, SeasonStanding> = {};
+  const get = (playerId: string) => {
+    if (!standings[playerId]) {
+      standings[playerId] = { playerId, points: 0, holesWon: 0, holeInOnes: 0, roundWins: 0 };
+    }
+    return standings[playerId];
+  };
+
+  rounds.forEach(round => {
+    if (round.abandonedAt) return;
+    Object.entries(getRoundPoints(round, rules)).forEach(([playerId, points]) => {
+      get(playerId).points += points;
+    });
+    round.holeResults.forEach(hole => {
+      hole.winnerIds.forEach(playerId => get(playerId).holesWon++);
+      hole.holeInOnePlayerIds.forEach(playerId => get(playerId).holeInOnes++);
+    });
+
+    Object.entries(getRoundWinPoints(round, rules)).forEach(([playerId, points]) => {
+      const standing = get(playerId);
+      standing.roundWins++;
+      standing.points += points;
+    });
+  });
+
+  return Object.values(standings).sort((a, b) => b.points - a.points);
+};
+
+export const formatPoints = (points: number) =>
+  Number.isInteger(points) ? points.toString() : points.toFixed(1);
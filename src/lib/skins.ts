@@ -0,0 +1,49 @@
+import { Round } from '@/types/golf';
+import { getHoleWinningSides, getRoundSides } from '@/lib/teams';
+
+// Skins: each hole is worth one skin plus anything carried over. A hole with a
+// single winner takes the skins; a tied (or unrecorded) hole carries them on.
+// In team rounds the skins go to teams rather than players.
+
+export interface SkinHole {
+  holeNumber: number;
+  value: number; // Skins at stake on this hole, including carry-over
+  winnerId?: string; // Player or team id
+  carriedOver: boolean;
+}
+
+export interface SkinsResult {
+  holes: SkinHole[];
+  skins: Record<string, number>; // Skins won per player (or team)
+  carryOver: number; // Skins still in play after the last recorded hole
+}
+
+export const calculateSkins = (round: Round): SkinsResult => {
+  const skins: Record<string, number> = {};
+  getRoundSides(round).forEach(side => { skins[side.id] = 0; });
+
+  let carryOver = 0;
+  const holes = [...round.holeResults]
+    .sort((a, b) => a.holeNumber - b.holeNumber)
+    .map(result => {
+      const value = carryOver + 1;
+      const winners = getHoleWinningSides(round, result);
+      if (winners.length === 1) {
+        const [winnerId] = winners;
+        skins[winnerId] = (skins[winnerId] || 0) + value;
+        carryOver = 0;
+        return { holeNumber: result.holeNumber, value, winnerId, carriedOver: false };
+      }
+      carryOver = value;
+      return { holeNumber: result.holeNumber, value, carriedOver: true };
+    });
+
+  return { holes, skins, carryOver };
+};
+
+// Skins at stake on a hole that has not been decided yet
+export const getSkinValue = (round: Round, holeNumber: number) => {
+  const previous = round.holeResults.filter(h => h.holeNumber < holeNumber);
+  const { carryOver } = calculateSkins({ ...round, holeResults: previous });
+  return carryOver + 1;
+};
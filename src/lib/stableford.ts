@@ -0,0 +1,76 @@
+import { Course, HoleResult, Round, StablefordTable } from '@/types/golf';
+import { getHoleNetStrokes } from '@/lib/handicap';
+import { getRoundSides, isTeamRound } from '@/lib/teams';
+
+// Stableford scoring: points per hole from the score relative to par. Net
+// strokes are used when the round plays off handicaps.
+
+// Modified (tour) table, keyed by strokes relative to par
+const MODIFIED_POINTS: Record<number, number> = { [-3]: 8, [-2]: 5, [-1]: 2, 0: 0, 1: -1 };
+
+export const STABLEFORD_TABLE_LABELS: Record<StablefordTable, string> = {
+  standard: 'Standard',
+  modified: 'Modified',
+};
+
+export const getStablefordPoints = (strokes: number, par: number, table: StablefordTable = 'standard') => {
+  const toPar = strokes - par;
+  if (table === 'modified') {
+    if (toPar >= 2) return -3;
+    return MODIFIED_POINTS[Math.max(toPar, -3)];
+  }
+  return Math.max(0, 2 - toPar);
+};
+
+// Points per player (or per team in a scramble) on a single hole. Worked out when
+// the hole is saved, since net strokes depend on the course's stroke indexes.
+export const calculateHoleStablefordPoints = (
+  round: Round,
+  course: Course | undefined,
+  hole: HoleResult
+): Record<string, number> => {
+  if (!hole.par) return {};
+  const table = round.stablefordTable ?? 'standard';
+
+  if (round.teamFormat === 'scramble' && isTeamRound(round)) {
+    return Object.fromEntries(
+      Object.entries(hole.teamStrokes ?? {}).map(([teamId, strokes]) => [teamId, getStablefordPoints(strokes, hole.par, table)])
+    );
+  }
+
+  const strokes = round.netScoring
+    ? getHoleNetStrokes(hole.strokes ?? {}, round, course, hole.holeNumber)
+    : hole.strokes ?? {};
+  return Object.fromEntries(
+    Object.entries(strokes).map(([playerId, count]) => [playerId, getStablefordPoints(count, hole.par, table)])
+  );
+};
+
+// Running Stableford totals per player (or scramble team) from the saved holes
+export const getRoundStablefordTotals = (round: Round) => {
+  const totals: Record<string, number> = {};
+  round.holeResults.forEach(hole => {
+    Object.entries(hole.stablefordPoints ?? {}).forEach(([id, points]) => {
+      totals[id] = (totals[id] || 0) + points;
+    });
+  });
+  return totals;
+};
+
+// Stableford totals per side: better-ball teams take their best member's points on each hole
+export const getSideStablefordTotals = (round: Round) => {
+  const totals: Record<string, number> = {};
+  const sides = getRoundSides(round);
+  sides.forEach(side => { totals[side.id] = 0; });
+
+  round.holeResults.forEach(hole => {
+    const points = hole.stablefordPoints ?? {};
+    sides.forEach(side => {
+      const scores = side.id in points
+        ? [points[side.id]]
+        : side.playerIds.filter(id => id in points).map(id => points[id]);
+      if (scores.length > 0) totals[side.id] += Math.max(...scores);
+    });
+  });
+  return totals;
+};
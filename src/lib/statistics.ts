@@ -0,0 +1,122 @@
+import { Course, PlayerStats, Round, Season } from '@/types/golf';
+import { getRoundPoints, getRoundRules, getRoundWinPoints, getSeasonRules, getSeasonStandings, SeasonStanding } from '@/lib/scoring';
+import { getNetRound } from '@/lib/rounds';
+
+// Aggregate statistics for the statistics page. Only completed rounds count;
+// a round in progress shows up once it is finished, an abandoned one never does.
+
+export const getCompletedRounds = (rounds: Round[]) => rounds.filter(r => r.completedAt && !r.abandonedAt);
+
+// Rounds rescored on net strokes, for the net view of every leaderboard
+export const getNetRounds = (rounds: Round[], courses: Course[]) =>
+  rounds.map(round => getNetRound(round, courses.find(c => c.id === round.courseId)));
+
+// Per-player totals, scoring every round with its own season's rules. Sorted by points.
+export const getPlayerStatistics = (playerIds: string[], rounds: Round[], seasons: Season[]): PlayerStats[] => {
+  const stats: Record<string, PlayerStats> = {};
+  playerIds.forEach(playerId => {
+    stats[playerId] = {
+      playerId,
+      points: 0,
+      totalWins: 0,
+      totalHolesWon: 0,
+      holeInOnes: 0,
+      roundsPlayed: 0,
+      history: [],
+    };
+  });
+
+  getCompletedRounds(rounds).forEach(round => {
+    const rules = getRoundRules(round, seasons);
+    const roundScores = getRoundPoints(round, rules);
+    const roundHoleInOnes: Record<string, number> = {};
+
+    round.holeResults.forEach(hole => {
+      hole.winnerIds.forEach(playerId => {
+        if (stats[playerId]) stats[playerId].totalHolesWon++;
+      });
+      hole.holeInOnePlayerIds.forEach(playerId => {
+        if (stats[playerId]) stats[playerId].holeInOnes++;
+        roundHoleInOnes[playerId] = (roundHoleInOnes[playerId] || 0) + 1;
+      });
+    });
+
+    round.playerIds.forEach(playerId => {
+      if (!stats[playerId]) return;
+      stats[playerId].roundsPlayed++;
+      stats[playerId].points += roundScores[playerId] || 0;
+      stats[playerId].history.push({
+        roundId: round.id,
+        courseId: round.courseId,
+        score: roundScores[playerId] || 0,
+        date: round.startedAt,
+        holeInOnes: roundHoleInOnes[playerId] || 0,
+      });
+    });
+
+    Object.entries(getRoundWinPoints(round, rules)).forEach(([playerId, points]) => {
+      if (!stats[playerId]) return;
+      stats[playerId].totalWins++;
+      stats[playerId].points += points;
+    });
+  });
+
+  return Object.values(stats).sort((a, b) => b.points - a.points);
+};
+
+export interface CourseRanking {
+  playerId: string;
+  score: number; // Best round points on the course
+  date: string;
+}
+
+export interface CourseStatistics {
+  course: Course;
+  roundsPlayed: number;
+  rankings: CourseRanking[];
+}
+
+// Best round per player on each course. Courses with the most rounds come first.
+export const getCourseRankings = (courses: Course[], rounds: Round[], seasons: Season[]): CourseStatistics[] => {
+  const completed = getCompletedRounds(rounds);
+
+  return courses
+    .map(course => {
+      const courseRounds = completed.filter(r => r.courseId === course.id);
+      const best: Record<string, CourseRanking> = {};
+
+      courseRounds.forEach(round => {
+        Object.entries(getRoundPoints(round, getRoundRules(round, seasons))).forEach(([playerId, score]) => {
+          if (score > 0 && (!best[playerId] || score > best[playerId].score)) {
+            best[playerId] = { playerId, score, date: round.startedAt };
+          }
+        });
+      });
+
+      return {
+        course,
+        roundsPlayed: courseRounds.length,
+        rankings: Object.values(best).sort((a, b) => b.score - a.score),
+      };
+    })
+    .sort((a, b) => b.roundsPlayed - a.roundsPlayed);
+};
+
+export interface SeasonSummary {
+  season: Season;
+  roundsPlayed: number;
+  playerCount: number;
+  standings: SeasonStanding[];
+}
+
+export const getSeasonSummaries = (seasons: Season[], rounds: Round[]): SeasonSummary[] =>
+  seasons.map(season => {
+    const seasonRounds = getCompletedRounds(rounds.filter(r => r.seasonId === season.id));
+    return {
+      season,
+      roundsPlayed: seasonRounds.length,
+      playerCount: season.playerIds.length,
+      standings: getSeasonStandings(seasonRounds, getSeasonRules(season))
+        .filter(standing => standing.points !== 0 || standing.holeInOnes > 0),
+    };
+  });
@@ -0,0 +1,250 @@
+import { GolfData } from '@/types/golf';
+import { QuarantinedRecord, RawGolfData, SCHEMA_VERSION, validateGolfData } from '@/lib/schema';
+import { runMigrations } from '@/lib/migrations';
+
+// IndexedDB storage engine for tracker data. Each entity collection lives in
+// its own object store keyed by `id`, so a change only rewrites the records
+// that actually changed instead of the whole collection.
+
+const DB_NAME = 'golf-tracker';
+const DB_VERSION = 2;
+const META_STORE = 'meta';
+const QUARANTINE_STORE = 'quarantine';
+
+export type StoreName = keyof GolfData;
+export type StoreRecord<S extends StoreName> = GolfData[S][number];
+
+export const STORE_NAMES: StoreName[] = ['players', 'seasons', 'courses', 'rounds'];
+
+// Keys used before the move to IndexedDB; migrated once, then removed
+export const LEGACY_STORAGE_KEYS: Record<StoreName, string> = {
+  players: 'golf-tracker-players',
+  seasons: 'golf-tracker-seasons',
+  courses: 'golf-tracker-courses',
+  rounds: 'golf-tracker-rounds',
+};
+
+const LEGACY_MIGRATED_KEY = 'legacyLocalStorageMigrated';
+const SCHEMA_VERSION_KEY = 'schemaVersion';
+
+export const createEmptyData = (): GolfData => ({
+  players: [],
+  seasons: [],
+  courses: [],
+  rounds: [],
+});
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openGolfDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      STORE_NAMES.forEach(name => {
+        if (!db.objectStoreNames.contains(name)) {
+          const store = db.createObjectStore(name, { keyPath: 'id' });
+          if (name === 'rounds') {
+            store.createIndex('seasonId', 'seasonId');
+            store.createIndex('courseId', 'courseId');
+          }
+        }
+      });
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        db.createObjectStore(META_STORE, { keyPath: 'key' });
+      }
+      if (!db.objectStoreNames.contains(QUARANTINE_STORE)) {
+        db.createObjectStore(QUARANTINE_STORE, { keyPath: 'id' });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // Allow a later retry if opening failed
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+export const readMeta = async <T>(key: string): Promise<T | undefined> => {
+  const db = await openGolfDatabase();
+  const transaction = db.transaction(META_STORE, 'readonly');
+  const entry = await requestToPromise(transaction.objectStore(META_STORE).get(key));
+  return entry?.value as T | undefined;
+};
+
+export const writeMeta = async (key: string, value: unknown): Promise<void> => {
+  const db = await openGolfDatabase();
+  const transaction = db.transaction(META_STORE, 'readwrite');
+  transaction.objectStore(META_STORE).put({ key, value });
+  await transactionDone(transaction);
+};
+
+// One-time copy of the old localStorage arrays into IndexedDB. Values that can't be
+// read as records are quarantined rather than dropped, and a key is only removed
+// once everything in it has been written.
+const migrateLegacyLocalStorage = async (db: IDBDatabase): Promise<void> => {
+  const metaTransaction = db.transaction(META_STORE, 'readonly');
+  const migrated = await requestToPromise(metaTransaction.objectStore(META_STORE).get(LEGACY_MIGRATED_KEY));
+  if (migrated?.value) return;
+
+  const stored: Partial<Record<StoreName, string | null>> = {};
+  STORE_NAMES.forEach(name => {
+    try {
+      stored[name] = localStorage.getItem(LEGACY_STORAGE_KEYS[name]);
+    } catch (error) {
+      console.error(`Error reading legacy ${name} from localStorage:`, error);
+    }
+  });
+
+  const quarantinedAt = new Date().toISOString();
+  const transaction = db.transaction([...STORE_NAMES, META_STORE, QUARANTINE_STORE], 'readwrite');
+  const quarantine = (store: StoreName, record: unknown, reason: string) => {
+    const entry: QuarantinedRecord = { id: crypto.randomUUID(), store, record, reason, schemaVersion: 0, quarantinedAt };
+    transaction.objectStore(QUARANTINE_STORE).put(entry);
+  };
+  STORE_NAMES.forEach(name => {
+    const value = stored[name];
+    if (!value) return;
+
+    let records: unknown;
+    try {
+      records = JSON.parse(value);
+    } catch (error) {
+      quarantine(name, value, `Not valid JSON: ${(error as Error).message}`);
+      return;
+    }
+    if (!Array.isArray(records)) {
+      quarantine(name, records, 'Expected a list of records');
+      return;
+    }
+    const store = transaction.objectStore(name);
+    records.forEach(record => {
+      if (record && typeof record.id === 'string') store.put(record);
+      else quarantine(name, record, 'id: Expected a string id');
+    });
+  });
+  transaction.objectStore(META_STORE).put({ key: LEGACY_MIGRATED_KEY, value: quarantinedAt });
+  await transactionDone(transaction);
+
+  STORE_NAMES.forEach(name => {
+    if (stored[name]) localStorage.removeItem(LEGACY_STORAGE_KEYS[name]);
+  });
+};
+
+export interface LoadedGolfData {
+  data: GolfData;
+  quarantine: QuarantinedRecord[];
+}
+
+// Reads all stores, upgrades them to the current schema version and validates
+// every record. Invalid records are moved to the quarantine store.
+export const loadGolfData = async (): Promise<LoadedGolfData> => {
+  const db = await openGolfDatabase();
+  await migrateLegacyLocalStorage(db);
+
+  const readTransaction = db.transaction([...STORE_NAMES, META_STORE], 'readonly');
+  const [storedRecords, versionEntry] = await Promise.all([
+    Promise.all(STORE_NAMES.map(name => requestToPromise(readTransaction.objectStore(name).getAll()))),
+    requestToPromise(readTransaction.objectStore(META_STORE).get(SCHEMA_VERSION_KEY)),
+  ]);
+
+  // Data written before versioning was introduced is version 0
+  const storedVersion: number = versionEntry?.value ?? 0;
+  const raw = Object.fromEntries(
+    STORE_NAMES.map((name, i) => [name, storedRecords[i]])
+  ) as RawGolfData;
+
+  const { data, quarantined } = validateGolfData(runMigrations(raw, storedVersion));
+
+  if (storedVersion !== SCHEMA_VERSION || quarantined.length > 0) {
+    const writeTransaction = db.transaction([...STORE_NAMES, META_STORE, QUARANTINE_STORE], 'readwrite');
+    STORE_NAMES.forEach(name => {
+      const store = writeTransaction.objectStore(name);
+      store.clear();
+      data[name].forEach(record => store.put(record));
+    });
+    const quarantineStore = writeTransaction.objectStore(QUARANTINE_STORE);
+    quarantined.forEach(entry => quarantineStore.put(entry));
+    writeTransaction.objectStore(META_STORE).put({ key: SCHEMA_VERSION_KEY, value: SCHEMA_VERSION });
+    await transactionDone(writeTransaction);
+  }
+
+  const quarantineTransaction = db.transaction(QUARANTINE_STORE, 'readonly');
+  const quarantine = await requestToPromise<QuarantinedRecord[]>(
+    quarantineTransaction.objectStore(QUARANTINE_STORE).getAll()
+  );
+
+  return { data, quarantine };
+};
+
+export const clearQuarantine = async (): Promise<void> => {
+  const db = await openGolfDatabase();
+  const transaction = db.transaction(QUARANTINE_STORE, 'readwrite');
+  transaction.objectStore(QUARANTINE_STORE).clear();
+  await transactionDone(transaction);
+};
+
+// Records whose identity changed are written; records that disappeared are deleted.
+// State updates are immutable, so untouched records keep their reference.
+export const diffRecords = <T extends { id: string }>(prev: T[], next: T[]) => {
+  const prevById = new Map(prev.map(record => [record.id, record]));
+  const nextIds = new Set(next.map(record => record.id));
+
+  return {
+    put: next.filter(record => prevById.get(record.id) !== record),
+    remove: prev.filter(record => !nextIds.has(record.id)).map(record => record.id),
+  };
+};
+
+export const persistStoreChanges = async <S extends StoreName>(
+  name: S,
+  prev: GolfData[S],
+  next: GolfData[S]
+): Promise<void> => {
+  const { put, remove } = diffRecords<StoreRecord<S>>(prev, next);
+  if (put.length === 0 && remove.length === 0) return;
+
+  const db = await openGolfDatabase();
+  const transaction = db.transaction(name, 'readwrite');
+  const store = transaction.objectStore(name);
+  put.forEach(record => store.put(record));
+  remove.forEach(id => store.delete(id));
+  await transactionDone(transaction);
+};
+
+const getRoundsByIndex = async (index: 'seasonId' | 'courseId', value: string) => {
+  const db = await openGolfDatabase();
+  const transaction = db.transaction('rounds', 'readonly');
+  return requestToPromise<GolfData['rounds']>(
+    transaction.objectStore('rounds').index(index).getAll(value)
+  );
+};
+
+export const getRoundsBySeason = (seasonId: string) => getRoundsByIndex('seasonId', seasonId);
+
+export const getRoundsByCourse = (courseId: string) => getRoundsByIndex('courseId', courseId);
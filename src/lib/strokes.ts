@@ -0,0 +1,109 @@
+import { Course, HoleResult, Round, ScoreBasis } from '@/types/golf';
+import { getRoundNetScores } from '@/lib/handicap';
+
+// Stroke-play helpers. Strokes are optional per hole; when present, the hole
+// winners are the player(s) with the fewest strokes.
+
+export const hasStrokes = (hole: HoleResult) =>
+  Object.keys(hole.strokes ?? {}).length > 0 || Object.keys(hole.teamStrokes ?? {}).length > 0;
+
+export const deriveWinnersFromStrokes = (strokes: Record<string, number>): string[] => {
+  const entries = Object.entries(strokes).filter(([, count]) => count > 0);
+  if (entries.length === 0) return [];
+  const best = Math.min(...entries.map(([, count]) => count));
+  return entries.filter(([, count]) => count === best).map(([playerId]) => playerId);
+};
+
+export interface GrossScore {
+  strokes: number;
+  holes: number;
+}
+
+// Gross strokes per player (and per team in scrambles) over the holes they have a stroke count for
+export const getRoundGrossScores = (round: Round): Record<string, GrossScore> => {
+  const scores: Record<string, GrossScore> = {};
+  round.holeResults.forEach(hole => {
+    Object.entries({ ...hole.strokes, ...hole.teamStrokes }).forEach(([playerId, count]) => {
+      if (!scores[playerId]) scores[playerId] = { strokes: 0, holes: 0 };
+      scores[playerId].strokes += count;
+      scores[playerId].holes++;
+    });
+  });
+  return scores;
+};
+
+export interface StrokePlayStats {
+  playerId: string;
+  roundsPlayed: number;
+  totalStrokes: number;
+  holesPlayed: number;
+  averagePerRound: number;
+  averagePerHole: number;
+  netTotalStrokes: number;
+  netAveragePerRound: number;
+  bestRound?: {
+    roundId: string;
+    courseId: string;
+    date: string;
+    strokes: number;
+    holes: number;
+  };
+}
+
+// Gross and net stroke statistics from completed rounds in which the player has a stroke
+// count on every recorded hole. Best round is the lowest strokes per hole; players are
+// ranked on gross or net strokes per hole.
+export const getStrokePlayStats = (
+  rounds: Round[],
+  playerIds: string[],
+  courses: Course[] = [],
+  rankBy: ScoreBasis = 'gross'
+): StrokePlayStats[] => {
+  return playerIds
+    .map(playerId => {
+      const stats: StrokePlayStats = {
+        playerId,
+        roundsPlayed: 0,
+        totalStrokes: 0,
+        holesPlayed: 0,
+        averagePerRound: 0,
+        averagePerHole: 0,
+        netTotalStrokes: 0,
+        netAveragePerRound: 0,
+      };
+
+      rounds.forEach(round => {
+        if (!round.completedAt || !round.playerIds.includes(playerId)) return;
+        if (round.holeResults.length === 0) return;
+        if (!round.holeResults.every(hole => hole.strokes?.[playerId] > 0)) return;
+
+        const gross = getRoundGrossScores(round)[playerId];
+        stats.roundsPlayed++;
+        stats.totalStrokes += gross.strokes;
+        stats.holesPlayed += gross.holes;
+        stats.netTotalStrokes += getRoundNetScores(round, courses.find(c => c.id === round.courseId))[playerId].strokes;
+
+        const best = stats.bestRound;
+        if (!best || gross.strokes / gross.holes < best.strokes / best.holes) {
+          stats.bestRound = {
+            roundId: round.id,
+            courseId: round.courseId,
+            date: round.startedAt,
+            strokes: gross.strokes,
+            holes: gross.holes,
+          };
+        }
+      });
+
+      if (stats.roundsPlayed > 0) {
+        stats.averagePerRound = stats.totalStrokes / stats.roundsPlayed;
+        stats.averagePerHole = stats.totalStrokes / stats.holesPlayed;
+        stats.netAveragePerRound = stats.netTotalStrokes / stats.roundsPlayed;
+      }
+      return stats;
+    })
+    .filter(stats => stats.roundsPlayed > 0)
+    .sort((a, b) => rankBy === 'net'
+      ? a.netTotalStrokes / a.holesPlayed - b.netTotalStrokes / b.holesPlayed
+      : a.averagePerHole - b.averagePerHole);
+};
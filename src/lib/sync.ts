@@ -0,0 +1,46 @@
+import { RecordChange } from '@/lib/history';
+
+// Cross-tab sync. Each tab broadcasts the records it persists and applies the
+// records other tabs broadcast, so a tab never writes back stale copies.
+// Concurrent edits to one record go to the latest write, ties broken by tab id,
+// so every tab settles on the same value.
+
+const SYNC_CHANNEL_NAME = 'golf-tracker-sync';
+
+export const TAB_ID = crypto.randomUUID();
+
+export type SyncChange = Omit<RecordChange, 'before'>; // No `after` means the record was deleted
+
+export interface SyncStamp {
+  at: number;
+  tabId: string;
+}
+
+export interface SyncMessage extends SyncStamp {
+  changes: SyncChange[];
+}
+
+export const getRecordKey = (change: SyncChange) => `${change.store}:${change.id}`;
+
+export const isNewerStamp = (stamp: SyncStamp, than: SyncStamp | undefined) =>
+  !than || stamp.at > than.at || (stamp.at === than.at && stamp.tabId > than.tabId);
+
+export const createSyncMessage = (changes: RecordChange[]): SyncMessage => ({
+  at: Date.now(),
+  tabId: TAB_ID,
+  changes: changes.map(({ store, id, after }) => ({ store, id, after })),
+});
+
+// Changes from another tab that are newer than the last write this tab knows of
+export const getWinningChanges = (message: SyncMessage, stamps: ReadonlyMap<string, SyncStamp>) => {
+  if (message.tabId === TAB_ID) return [];
+  return message.changes.filter(change => isNewerStamp(message, stamps.get(getRecordKey(change))));
+};
+
+// Null where BroadcastChannel isn't supported; the tab then works on its own
+export const openSyncChannel = (onMessage: (message: SyncMessage) => void) => {
+  if (typeof BroadcastChannel === 'undefined') return null;
+  const channel = new BroadcastChannel(SYNC_CHANNEL_NAME);
+  channel.onmessage = (event: MessageEvent<SyncMessage>) => onMessage(event.data);
+  return channel;
+};
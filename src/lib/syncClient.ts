@@ -0,0 +1,205 @@
+import { GolfData } from '@/types/golf';
+import { entitySchemas } from '@/lib/schema';
+import { readMeta, StoreName, writeMeta } from '@/lib/storage';
+import { RecordChange } from '@/lib/history';
+import {
+  getPushedRecords,
+  getRecordSeasonIds,
+  getRemoteKey,
+  getSeasonRecordKeys,
+  RemoteRecord,
+  SeasonSummary,
+  SeasonSyncRequest,
+  SeasonSyncResponse,
+} from '@/lib/remoteSync';
+
+// Client side of multi-device sync (see `src/lib/remoteSync.ts`). Changes made on
+// this device wait in a queue, kept in IndexedDB, until the server has taken them,
+// so holes scored offline are sent once the connection is back. Sync is off unless
+// VITE_SYNC_SERVER_URL is set.
+
+const SYNC_STATE_KEY = 'remoteSync';
+const SYNC_LOCK_NAME = 'golf-tracker-remote-sync';
+
+export const SYNC_SERVER_URL: string | undefined = import.meta.env.VITE_SYNC_SERVER_URL || undefined;
+
+export type RemoteSyncStatus = 'off' | 'syncing' | 'synced' | 'offline' | 'otherTab';
+
+export interface QueuedChange {
+  store: StoreName;
+  id: string;
+  seasonIds: string[];
+}
+
+export interface RemoteSyncState {
+  deviceId: string;
+  seasonRevisions: Record<string, number>; // Last season revision pulled
+  recordRevisions: Record<string, number>; // Server revision of each record this device has seen
+  queue: QueuedChange[];
+}
+
+export const createRemoteSyncState = (): RemoteSyncState => ({
+  deviceId: crypto.randomUUID(),
+  seasonRevisions: {},
+  recordRevisions: {},
+  queue: [],
+});
+
+export const loadRemoteSyncState = async () =>
+  (await readMeta<RemoteSyncState>(SYNC_STATE_KEY)) ?? createRemoteSyncState();
+
+export const saveRemoteSyncState = (state: RemoteSyncState) => writeMeta(SYNC_STATE_KEY, state);
+
+// Calls `onAcquired` once this tab holds the sync lock, and `onWaiting` if another
+// tab holds it first. Only the lock holder talks to the server and keeps the queue,
+// so tabs can't write over each other's queued changes; the others send their
+// changes to it as they do to every tab (see `src/lib/sync.ts`). When it closes, the
+// next tab waiting takes over. Browsers without Web Locks sync from every tab.
+// Returns a function that gives the lock up.
+export const acquireSyncLock = (onAcquired: () => void, onWaiting: () => void): (() => void) => {
+  if (typeof navigator === 'undefined' || !navigator.locks) {
+    onAcquired();
+    return () => {};
+  }
+
+  const controller = new AbortController();
+  let release = () => {};
+  const hold = () => {
+    if (controller.signal.aborted) return Promise.resolve();
+    onAcquired();
+    return new Promise<void>(resolve => { release = resolve; });
+  };
+  navigator.locks.request(SYNC_LOCK_NAME, { ifAvailable: true }, lock => {
+    if (lock) return hold();
+    if (!controller.signal.aborted) onWaiting();
+    return navigator.locks.request(SYNC_LOCK_NAME, { signal: controller.signal }, hold);
+  }).catch(error => {
+    if ((error as DOMException).name !== 'AbortError') console.error('Error acquiring the sync lock:', error);
+  });
+  return () => {
+    controller.abort();
+    release();
+  };
+};
+
+const findRecord = (data: GolfData, store: StoreName, id: string) =>
+  (data[store] as Array<{ id: string }>).find(record => record.id === id);
+
+// Adds local changes to the queue under the seasons they belong to
+export const queueChanges = (state: RemoteSyncState, changes: RecordChange[], data: GolfData): RemoteSyncState => {
+  const queue = [...state.queue];
+  changes.forEach(change => {
+    const seasonIds = getRecordSeasonIds(change.store, change.after ?? change.before, data);
+    if (seasonIds.length === 0) return;
+
+    const index = queue.findIndex(q => q.store === change.store && q.id === change.id);
+    if (index < 0) queue.push({ store: change.store, id: change.id, seasonIds });
+    else queue[index] = { ...queue[index], seasonIds: [...new Set([...queue[index].seasonIds, ...seasonIds])] };
+  });
+  return { ...state, queue };
+};
+
+export interface RemoteSyncResult {
+  seasonRevisions: Record<string, number>;
+  recordRevisions: Record<string, number>;
+  pushed: Map<string, { id: string } | undefined>; // Values the server took, by record key
+  records: RemoteRecord[]; // Valid records from the server, own pushes included
+}
+
+const request = async <T>(path: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(`${SYNC_SERVER_URL}${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json' },
+  });
+  if (!response.ok) throw new Error(`The sync server responded with ${response.status}.`);
+  return response.json();
+};
+
+// Valid records as parsed, so fields this version doesn't keep, such as the current
+// hole older versions stored on rounds, are left out
+const parseRemoteRecords = (records: RemoteRecord[]): RemoteRecord[] => records.flatMap(remote => {
+  if (!remote.record) return [remote];
+  const parsed = entitySchemas[remote.store]?.safeParse(remote.record);
+  return parsed?.success ? [{ ...remote, record: parsed.data }] : [];
+});
+
+export interface SeasonSync {
+  seasonId: string;
+  since: number;
+  keys: Array<{ store: StoreName; id: string }>; // Records to push
+  full: boolean; // Pushes the whole season, as new to the server
+}
+
+// Seasons to push or pull. A local season the server hasn't had from this device,
+// because sync was just turned on or the server is behind the revision this device
+// last saw (e.g. restored from an older copy), is pushed in full and pulled from
+// the start. Until that succeeds its revision isn't recorded, so it's retried.
+export const getSeasonSyncs = (state: RemoteSyncState, summaries: SeasonSummary[], data: GolfData): SeasonSync[] => {
+  const serverRevisions = new Map(summaries.map(summary => [summary.id, summary.revision]));
+  const syncs = new Map<string, SeasonSync>();
+  const queued = (seasonId: string) => state.queue.filter(q => q.seasonIds.includes(seasonId));
+
+  data.seasons.forEach(({ id }) => {
+    const seen = state.seasonRevisions[id];
+    if (seen !== undefined && (serverRevisions.get(id) ?? 0) >= seen) return;
+    syncs.set(id, { seasonId: id, since: 0, keys: [...getSeasonRecordKeys(id, data), ...queued(id)], full: true });
+  });
+  const updated = summaries.filter(s => s.revision > (state.seasonRevisions[s.id] ?? 0)).map(s => s.id);
+  [...state.queue.flatMap(q => q.seasonIds), ...updated].forEach(seasonId => {
+    if (syncs.has(seasonId)) return;
+    syncs.set(seasonId, { seasonId, since: state.seasonRevisions[seasonId] ?? 0, keys: queued(seasonId), full: false });
+  });
+  return [...syncs.values()];
+};
+
+// Pushes the queue and pulls every season with news, one request per season
+export const runRemoteSync = async (state: RemoteSyncState, data: GolfData): Promise<RemoteSyncResult> => {
+  const summaries = await request<SeasonSummary[]>('/api/seasons');
+
+  const result: RemoteSyncResult = { seasonRevisions: {}, recordRevisions: {}, pushed: new Map(), records: [] };
+  for (const { seasonId, since, keys, full } of getSeasonSyncs(state, summaries, data)) {
+    // Revisions seen before a full push may be ahead of the server, so every round
+    // pushed in full is merged with what the server has
+    const changes = getPushedRecords(keys, data)
+      .map(change => ({ ...change, baseRevision: full ? 0 : state.recordRevisions[getRemoteKey(change)] ?? 0 }));
+    const body: SeasonSyncRequest = { deviceId: state.deviceId, since, changes };
+    const response = await request<SeasonSyncResponse>(`/api/seasons/${encodeURIComponent(seasonId)}/sync`, {
+      method: 'POST',
+      body: JSON.stringify(body),
+    });
+
+    changes.forEach(change => result.pushed.set(getRemoteKey(change), change.record));
+    response.records.forEach(remote => {
+      result.recordRevisions[getRemoteKey(remote)] = remote.revision;
+    });
+    result.seasonRevisions[seasonId] = response.revision;
+    result.records.push(...parseRemoteRecords(response.records));
+  }
+  return result;
+};
+
+// Records the sync in the state. Queued records are done once the server has taken
+// their current value; ones changed again while the request was out stay queued.
+export const finishRemoteSync = (state: RemoteSyncState, result: RemoteSyncResult, data: GolfData): RemoteSyncState => ({
+  ...state,
+  seasonRevisions: { ...state.seasonRevisions, ...result.seasonRevisions },
+  recordRevisions: { ...state.recordRevisions, ...result.recordRevisions },
+  queue: state.queue.filter(q => {
+    const key = getRemoteKey(q);
+    return !result.pushed.has(key) || result.pushed.get(key) !== findRecord(data, q.store, q.id);
+  }),
+});
+
+// Server records to apply locally. Records still queued here keep the local value;
+// the server merges them on the next push.
+export const getRemoteChanges = (
+  records: RemoteRecord[],
+  state: RemoteSyncState,
+  data: GolfData
+): Omit<RecordChange, 'before'>[] => {
+  const queued = new Set(state.queue.map(getRemoteKey));
+  return records
+    .filter(remote => !queued.has(getRemoteKey(remote)))
+    .filter(remote => JSON.stringify(findRecord(data, remote.store, remote.id)) !== JSON.stringify(remote.record))
+    .map(remote => ({ store: remote.store, id: remote.id, after: remote.record }));
+};
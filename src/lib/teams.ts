@@ -0,0 +1,55 @@
+import { HoleResult, Round, Team } from '@/types/golf';
+
+// Team play helpers. A "side" is whoever competes for a hole: a team in team
+// rounds, otherwise each player on their own.
+
+export interface RoundSide {
+  id: string;
+  name?: string;
+  playerIds: string[];
+}
+
+export const isTeamRound = (round: Round | undefined) => !!round?.teams?.length;
+
+export const getRoundSides = (round: Round): RoundSide[] =>
+  isTeamRound(round)
+    ? round.teams.map(team => ({ id: team.id, name: team.name, playerIds: team.playerIds }))
+    : round.playerIds.map(playerId => ({ id: playerId, playerIds: [playerId] }));
+
+// Sides that won a hole
+export const getHoleWinningSides = (round: Round, hole: HoleResult): string[] =>
+  isTeamRound(round) ? hole.winnerTeamIds ?? [] : hole.winnerIds;
+
+export const getTeamMemberIds = (teams: Team[], teamIds: string[]) =>
+  teams.filter(team => teamIds.includes(team.id)).flatMap(team => team.playerIds);
+
+export const getPlayerTeam = (teams: Team[] | undefined, playerId: string) =>
+  teams?.find(team => team.playerIds.includes(playerId));
+
+// Splits players across teams in turn (1, 2, 1, 2, ...)
+export const createTeams = (playerIds: string[], count: number): Team[] =>
+  Array.from({ length: count }, (_, i) => ({
+    id: crypto.randomUUID(),
+    name: `Team ${i + 1}`,
+    playerIds: playerIds.filter((_, index) => index % count === i),
+  }));
+
+// Keeps only the given players in each team
+export const pruneTeams = (teams: Team[], playerIds: string[]): Team[] =>
+  teams.map(team => ({ ...team, playerIds: team.playerIds.filter(id => playerIds.includes(id)) }));
+
+// At least two named, non-empty teams with every player assigned
+export const hasValidTeams = (teams: Team[], playerIds: string[]) =>
+  teams.length >= 2 &&
+  teams.every(team => team.playerIds.length > 0 && team.name.trim()) &&
+  playerIds.every(id => teams.some(team => team.playerIds.includes(id)));
+
+// Team score on a hole: the best member score for better ball
+export const getBetterBallStrokes = (teams: Team[], strokes: Record<string, number>) => {
+  const teamStrokes: Record<string, number> = {};
+  teams.forEach(team => {
+    const scores = team.playerIds.map(id => strokes[id]).filter(count => count > 0);
+    if (scores.length > 0) teamStrokes[team.id] = Math.min(...scores);
+  });
+  return teamStrokes;
+};
@@ -0,0 +1,116 @@
+import { HoleResult, Round } from '@/types/golf';
+
+// Wolf: the wolf rotates through the players in order, one hole each. Before the
+// hole is played the wolf either picks a partner (two against the rest) or goes
+// lone wolf (one against everyone). The side holding the hole's low score wins;
+// a low score shared across both sides halves the hole.
+
+// Points per player on the winning side
+export const WOLF_POINTS = {
+  partnersWin: 2, // Wolf and partner each
+  partnersLose: 3, // Each player beating the wolf and partner
+  loneWolfWins: 4,
+  loneWolfLoses: 1, // Each player beating the lone wolf
+};
+
+export type WolfOutcome = 'wolf' | 'opponents' | 'halved';
+
+export const getWolfId = (round: Pick<Round, 'playerIds'>, holeNumber: number) =>
+  round.playerIds[(holeNumber - 1) % round.playerIds.length];
+
+export const isLoneWolf = (hole: HoleResult) => !!hole.wolf && !hole.wolf.partnerId;
+
+// Players on the wolf's side of a hole
+const getWolfSide = (hole: HoleResult) =>
+  hole.wolf ? [hole.wolf.wolfId, ...(hole.wolf.partnerId ? [hole.wolf.partnerId] : [])] : [];
+
+// Undefined when the hole has no wolf choice or no winner recorded
+export const getWolfOutcome = (hole: HoleResult): WolfOutcome | undefined => {
+  if (!hole.wolf || hole.winnerIds.length === 0) return undefined;
+  const wolfSide = getWolfSide(hole);
+  const wolfWins = hole.winnerIds.some(id => wolfSide.includes(id));
+  const opponentsWin = hole.winnerIds.some(id => !wolfSide.includes(id));
+  if (wolfWins && opponentsWin) return 'halved';
+  return wolfWins ? 'wolf' : 'opponents';
+};
+
+export const getWolfHolePoints = (round: Round, hole: HoleResult): Record<string, number> => {
+  const outcome = getWolfOutcome(hole);
+  if (!outcome || outcome === 'halved') return {};
+
+  const wolfSide = getWolfSide(hole);
+  const lone = isLoneWolf(hole);
+  const winners = outcome === 'wolf'
+    ? wolfSide
+    : round.playerIds.filter(id => !wolfSide.includes(id));
+  const value = outcome === 'wolf'
+    ? lone ? WOLF_POINTS.loneWolfWins : WOLF_POINTS.partnersWin
+    : lone ? WOLF_POINTS.loneWolfLoses : WOLF_POINTS.partnersLose;
+
+  return Object.fromEntries(winners.map(id => [id, value]));
+};
+
+// Wolf points per player over the saved holes
+export const getWolfPoints = (round: Round) => {
+  const points: Record<string, number> = {};
+  round.playerIds.forEach(id => { points[id] = 0; });
+  round.holeResults.forEach(hole => {
+    Object.entries(getWolfHolePoints(round, hole)).forEach(([playerId, value]) => {
+      points[playerId] = (points[playerId] || 0) + value;
+    });
+  });
+  return points;
+};
+
+export interface WolfRecord {
+  playerId: string;
+  holesAsWolf: number;
+  partnered: number;
+  partneredWon: number;
+  loneWolf: number;
+  loneWolfWon: number;
+  loneWolfLost: number;
+}
+
+export const getLoneWolfRate = (record: WolfRecord) =>
+  record.loneWolf > 0 ? record.loneWolfWon / record.loneWolf : 0;
+
+// The wolf's decisions and results from completed wolf rounds. Lone-wolf success is
+// the share of lone-wolf holes won outright.
+export const getWolfRecords = (rounds: Round[], playerIds: string[]): WolfRecord[] => {
+  const records: Record<string, WolfRecord> = {};
+  playerIds.forEach(playerId => {
+    records[playerId] = {
+      playerId,
+      holesAsWolf: 0,
+      partnered: 0,
+      partneredWon: 0,
+      loneWolf: 0,
+      loneWolfWon: 0,
+      loneWolfLost: 0,
+    };
+  });
+
+  rounds.forEach(round => {
+    if (round.format !== 'wolf' || !round.completedAt) return;
+    round.holeResults.forEach(hole => {
+      const record = hole.wolf && records[hole.wolf.wolfId];
+      const outcome = getWolfOutcome(hole);
+      if (!record || !outcome) return;
+
+      record.holesAsWolf++;
+      if (isLoneWolf(hole)) {
+        record.loneWolf++;
+        if (outcome === 'wolf') record.loneWolfWon++;
+        if (outcome === 'opponents') record.loneWolfLost++;
+      } else {
+        record.partnered++;
+        if (outcome === 'wolf') record.partneredWon++;
+      }
+    });
+  });
+
+  return Object.values(records)
+    .filter(record => record.holesAsWolf > 0)
+    .sort((a, b) => getLoneWolfRate(b) - getLoneWolfRate(a) || b.loneWolf - a.loneWolf);
+};
@@ -5,6 +5,7 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import {
   Select,
@@ -15,12 +16,24 @@ import {
 } from '@/components/ui/select';
 import { useGolf } from '@/contexts/GolfContext';
 import { useToast } from '@/hooks/use-toast';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { CourseSearchMap } from '@/components/maps/CourseSearchMap';
-import { ArrowLeft, MapPin, Settings, Users, Play } from 'lucide-react';
+import { ManualCourseDetails, ManualCourseEntry } from '@/components/course/ManualCourseEntry';
+import { HoleTableEditor } from '@/components/course/HoleTableEditor';
+import { GameFormatSelect } from '@/components/round/GameFormatSelect';
+import { TeamSetup } from '@/components/round/TeamSetup';
+import { GameFormat, StablefordTable, Team, TeamFormat } from '@/types/golf';
+import { pruneTeams } from '@/lib/teams';
+import { getNassauSegments } from '@/lib/nassau';
+import { getRoundFormatDefaults, getRoundSetupProblem } from '@/lib/rounds';
+import { CourseLayout, createDefaultLayout, getTotalPar, hasValidStrokeIndexes, resizeHoles } from '@/lib/courseHoles';
+import { CourseLocation, formatCoordinates, LatLng, parseCoordinates } from '@/lib/maps';
+import { ArrowLeft, MapPin, Settings, Users, Play, ChevronDown, PencilLine, Search } from 'lucide-react';
 
 interface CourseConfig {
   name: string;
   holes: number;
+  layout: CourseLayout;
 }
 
 const AddCourse = () => {
@@ -36,18 +49,15 @@ const AddCourse = () => {
     : activeSeason;
 
   const [step, setStep] = useState<'map' | 'configure' | 'players'>('map');
-  const [selectedLocation, setSelectedLocation] = useState<{
-    name: string;
-    address: string;
-    lat: number;
-    lng: number;
-  } | null>(null);
+  const [entryMode, setEntryMode] = useState<'search' | 'manual'>('search');
+  const [selectedLocation, setSelectedLocation] = useState<CourseLocation | null>(null);
+  const [manualCourse, setManualCourse] = useState<ManualCourseDetails>({ name: '', address: '', lat: '', lng: '' });
   
   // Course configuration
   const [locationName, setLocationName] = useState('');
   const [numberOfCourses, setNumberOfCourses] = useState(1);
   const [courseConfigs, setCourseConfigs] = useState<CourseConfig[]>([
-    { name: 'Course 1', holes: 18 }
+    { name: 'Course 1', holes: 18, layout: createDefaultLayout(18) }
   ]);
   
   // Player selection
@@ -57,10 +67,45 @@ const AddCourse = () => {
   const [selectedPlayerIds, setSelectedPlayerIds] = useState<string[]>(
     seasonPlayers.map(p => p.id)
   );
+  const [netScoring, setNetScoring] = useState(false);
+  const [gameFormat, setGameFormat] = useState<GameFormat>();
+  const [stablefordTable, setStablefordTable] = useState<StablefordTable>();
+  const [nassauPresses, setNassauPresses] = useState(false);
 
-  const handleLocationSelect = (loc: typeof selectedLocation) => {
+  const { format: roundFormat, stablefordTable: roundStablefordTable } =
+    getRoundFormatDefaults(currentSeason, gameFormat, stablefordTable);
+  const [teams, setTeams] = useState<Team[] | undefined>();
+  const [teamFormat, setTeamFormat] = useState<TeamFormat>('betterBall');
+
+  const handleLocationSelect = (loc: CourseLocation) => {
     setSelectedLocation(loc);
-    setLocationName(loc?.name || '');
+    setLocationName(loc.name);
+  };
+
+  // For courses the search doesn't list, or when the map can't load
+  const handleManualEntry = () => {
+    setManualCourse(prev => ({ ...prev, name: prev.name || selectedLocation?.name || '' }));
+    setEntryMode('manual');
+  };
+
+  // Tapping the search map starts a manual entry at that spot
+  const handleMapPick = (point: LatLng) => {
+    setManualCourse(prev => ({ ...prev, ...formatCoordinates(point) }));
+    setEntryMode('manual');
+  };
+
+  // Address and position saved with the course, from whichever way it was entered
+  const getCoursePlace = () => {
+    if (entryMode === 'search') {
+      return {
+        address: selectedLocation?.address,
+        coordinates: selectedLocation ? { lat: selectedLocation.lat, lng: selectedLocation.lng } : undefined,
+      };
+    }
+    return {
+      address: manualCourse.address.trim() || undefined,
+      coordinates: parseCoordinates(manualCourse).coordinates,
+    };
   };
 
   const handleNumberOfCoursesChange = (value: string) => {
@@ -68,14 +113,26 @@ const AddCourse = () => {
     setNumberOfCourses(num);
     
     const newConfigs = Array.from({ length: num }, (_, i) => 
-      courseConfigs[i] || { name: `Course ${i + 1}`, holes: 18 }
+      courseConfigs[i] || { name: `Course ${i + 1}`, holes: 18, layout: createDefaultLayout(18) }
     );
     setCourseConfigs(newConfigs);
   };
 
-  const updateCourseConfig = (index: number, field: keyof CourseConfig, value: string | number) => {
+  const updateCourseConfig = (index: number, field: 'name' | 'holes', value: string | number) => {
+    setCourseConfigs(prev => prev.map((config, i) => {
+      if (i !== index) return config;
+      if (field === 'holes') {
+        // Keep the hole table in step with the hole count
+        const holes = value as number;
+        return { ...config, holes, layout: { ...config.layout, holes: resizeHoles(config.layout.holes, holes) } };
+      }
+      return { ...config, name: value as string };
+    }));
+  };
+
+  const updateCourseLayout = (index: number, layout: CourseLayout) => {
     setCourseConfigs(prev => prev.map((config, i) => 
-      i === index ? { ...config, [field]: value } : config
+      i === index ? { ...config, layout } : config
     ));
   };
 
@@ -88,7 +145,19 @@ const AddCourse = () => {
   };
 
   const handleContinue = () => {
-    if (step === 'map') {
+    if (step === 'map' && entryMode === 'manual') {
+      const { error } = parseCoordinates(manualCourse);
+      if (!manualCourse.name.trim() || error) {
+        toast({
+          title: error ? "Check the location" : "Name required",
+          description: error ?? "Please enter a name for this course.",
+          variant: "destructive",
+        });
+        return;
+      }
+      setLocationName(manualCourse.name.trim());
+      setStep('configure');
+    } else if (step === 'map') {
       if (!selectedLocation) {
         toast({
           title: "Select a location",
@@ -107,6 +176,22 @@ const AddCourse = () => {
         });
         return;
       }
+      if (courseConfigs.some(({ layout }) => layout.slopeRating !== undefined && (layout.slopeRating < 55 || layout.slopeRating > 155))) {
+        toast({
+          title: "Check slope rating",
+          description: "Slope ratings range from 55 to 155.",
+          variant: "destructive",
+        });
+        return;
+      }
+      if (courseConfigs.some(config => !hasValidStrokeIndexes(config.layout.holes))) {
+        toast({
+          title: "Check stroke indexes",
+          description: "Each stroke index must be used exactly once, or left blank for every hole.",
+          variant: "destructive",
+        });
+        return;
+      }
       setStep('players');
     }
   };
@@ -130,18 +215,40 @@ const AddCourse = () => {
       return;
     }
 
+    // Players deselected after the teams were set up drop out of their team
+    const roundTeams = teams && pruneTeams(teams, selectedPlayerIds);
+    const problem = getRoundSetupProblem(roundFormat, selectedPlayerIds, roundTeams);
+    if (problem) {
+      toast({ ...problem, variant: "destructive" });
+      return;
+    }
+
     // Add each course and create a round for the first one
+    const { address, coordinates } = getCoursePlace();
     const createdCourses = courseConfigs.map((config, index) => {
       return addCourse(
         index === 0 ? locationName : `${locationName} - ${config.name}`,
         numberOfCourses,
         config.holes,
-        selectedLocation?.address
+        address,
+        config.layout,
+        coordinates
       );
     });
 
     // Create round with first course
-    const round = createRound(currentSeason.id, createdCourses[0].id, selectedPlayerIds);
+    const round = createRound(currentSeason.id, createdCourses[0].id, selectedPlayerIds, {
+      netScoring,
+      format: roundFormat,
+      stablefordTable: roundStablefordTable,
+      nassau: {
+        segments: getNassauSegments(courseConfigs[0].holes, createdCourses[0].holesPerCourse),
+        presses: nassauPresses,
+      },
+      teams: roundTeams,
+      teamFormat,
+      holeCount: courseConfigs[0].holes,
+    });
 
     toast({
       title: "Course added!",
@@ -149,7 +256,7 @@ const AddCourse = () => {
     });
 
     // Navigate to play with the new round
-    navigate('/play', { state: { roundId: round.id, totalHoles: courseConfigs[0].holes } });
+    navigate('/play', { state: { roundId: round.id } });
   };
 
   const getInitials = (name: string) => {
@@ -198,7 +305,7 @@ const AddCourse = () => {
           <div>
             <h1 className="text-2xl font-bold">Add Course</h1>
             <p className="text-sm text-muted-foreground">
-              {step === 'map' && 'Search for a golf course'}
+              {step === 'map' && (entryMode === 'search' ? 'Search for a golf course' : 'Enter the course details')}
               {step === 'configure' && 'Configure course details'}
               {step === 'players' && 'Select players'}
             </p>
@@ -213,7 +320,7 @@ const AddCourse = () => {
         </div>
 
         {/* Step 1: Map Search */}
-        {step === 'map' && (
+        {step === 'map' && entryMode === 'search' && (
           <Card>
             <CardHeader>
               <CardTitle className="text-lg flex items-center gap-2">
@@ -221,11 +328,41 @@ const AddCourse = () => {
                 Find Golf Course
               </CardTitle>
               <CardDescription>
-                Search for a golf course or tap on the map
+                Search for a golf course, or tap the map to place one the search doesn't list
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
-              <CourseSearchMap onLocationSelect={handleLocationSelect} />
+              <CourseSearchMap
+                onLocationSelect={handleLocationSelect}
+                onManualEntry={handleManualEntry}
+                onPick={handleMapPick}
+              />
+              <Button variant="link" className="w-full" onClick={handleManualEntry}>
+                <PencilLine className="w-4 h-4 mr-1" />
+                Course not listed? Enter it manually
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Step 1: Manual Entry */}
+        {step === 'map' && entryMode === 'manual' && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <PencilLine className="w-5 h-5" />
+                Enter Golf Course
+              </CardTitle>
+              <CardDescription>
+                Add a course the map search doesn't list
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <ManualCourseEntry value={manualCourse} onChange={setManualCourse} />
+              <Button variant="link" className="w-full" onClick={() => setEntryMode('search')}>
+                <Search className="w-4 h-4 mr-1" />
+                Search the map instead
+              </Button>
             </CardContent>
           </Card>
         )}
@@ -274,27 +411,43 @@ const AddCourse = () => {
               <div className="space-y-3">
                 <Label>Course Details</Label>
                 {courseConfigs.map((config, index) => (
-                  <div key={index} className="flex gap-2">
-                    <Input
-                      value={config.name}
-                      onChange={(e) => updateCourseConfig(index, 'name', e.target.value)}
-                      placeholder="Course name"
-                      className="flex-1"
-                    />
-                    <Select
-                      value={config.holes.toString()}
-                      onValueChange={(v) => updateCourseConfig(index, 'holes', parseInt(v))}
-                    >
-                      <SelectTrigger className="w-24">
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="9">9 holes</SelectItem>
-                        <SelectItem value="18">18 holes</SelectItem>
-                        <SelectItem value="27">27 holes</SelectItem>
-                        <SelectItem value="36">36 holes</SelectItem>
-                      </SelectContent>
-                    </Select>
+                  <div key={index} className="space-y-2">
+                    <div className="flex gap-2">
+                      <Input
+                        value={config.name}
+                        onChange={(e) => updateCourseConfig(index, 'name', e.target.value)}
+                        placeholder="Course name"
+                        className="flex-1"
+                      />
+                      <Select
+                        value={config.holes.toString()}
+                        onValueChange={(v) => updateCourseConfig(index, 'holes', parseInt(v))}
+                      >
+                        <SelectTrigger className="w-24">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="9">9 holes</SelectItem>
+                          <SelectItem value="18">18 holes</SelectItem>
+                          <SelectItem value="27">27 holes</SelectItem>
+                          <SelectItem value="36">36 holes</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <Collapsible>
+                      <CollapsibleTrigger asChild>
+                        <Button variant="ghost" size="sm" className="w-full justify-between text-muted-foreground">
+                          Hole details (par {getTotalPar(config.layout.holes)})
+                          <ChevronDown className="w-4 h-4" />
+                        </Button>
+                      </CollapsibleTrigger>
+                      <CollapsibleContent className="pt-2">
+                        <HoleTableEditor
+                          layout={config.layout}
+                          onChange={(layout) => updateCourseLayout(index, layout)}
+                        />
+                      </CollapsibleContent>
+                    </Collapsible>
                   </div>
                 ))}
               </div>
@@ -341,6 +494,35 @@ const AddCourse = () => {
                 ))}
               </div>
 
+              <div className="mt-4 pt-4 border-t">
+                <GameFormatSelect
+                  value={roundFormat}
+                  onChange={setGameFormat}
+                  stablefordTable={roundStablefordTable}
+                  onStablefordTableChange={setStablefordTable}
+                  nassauPresses={nassauPresses}
+                  onNassauPressesChange={setNassauPresses}
+                />
+              </div>
+
+              <div className="flex items-center justify-between mt-4">
+                <div>
+                  <Label htmlFor="net-scoring">Net scoring</Label>
+                  <p className="text-xs text-muted-foreground">Apply handicap strokes when deciding hole winners</p>
+                </div>
+                <Switch id="net-scoring" checked={netScoring} onCheckedChange={setNetScoring} />
+              </div>
+
+              <div className="mt-4">
+                <TeamSetup
+                  players={seasonPlayers.filter(p => selectedPlayerIds.includes(p.id))}
+                  teams={teams}
+                  teamFormat={teamFormat}
+                  onTeamsChange={setTeams}
+                  onTeamFormatChange={setTeamFormat}
+                />
+              </div>
+
               {seasonPlayers.length === 0 && (
                 <div className="text-center py-8 text-muted-foreground">
                   <p>No players in this season</p>
@@ -359,7 +541,7 @@ const AddCourse = () => {
             <Button 
               className="w-full h-12" 
               onClick={handleContinue}
-              disabled={step === 'map' && !selectedLocation}
+              disabled={step === 'map' && (entryMode === 'search' ? !selectedLocation : !manualCourse.name.trim())}
             >
               Continue
             </Button>
@@ -0,0 +1,257 @@
+import { useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useGolf } from '@/contexts/GolfContext';
+import { useToast } from '@/hooks/use-toast';
+import { UndoToastAction } from '@/components/UndoToastAction';
+import {
+  applyImport,
+  BackupDocument,
+  createBackup,
+  getSeasonsClosedByMerge,
+  ImportMode,
+  parseBackup,
+  previewImport,
+} from '@/lib/backup';
+import { STORE_NAMES } from '@/lib/storage';
+import { ArrowLeft, Download, Upload, FileJson } from 'lucide-react';
+import { format } from 'date-fns';
+
+const STORE_LABELS = {
+  players: 'Players',
+  seasons: 'Seasons',
+  courses: 'Courses',
+  rounds: 'Rounds',
+};
+
+const BackupRestore = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { players, seasons, courses, rounds, restoreData } = useGolf();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pendingBackup, setPendingBackup] = useState<BackupDocument | null>(null);
+  const [importMode, setImportMode] = useState<ImportMode>('merge');
+  const [isConfirmOpen, setIsConfirmOpen] = useState(false);
+
+  const currentData = { players, seasons, courses, rounds };
+  const preview = pendingBackup ? previewImport(currentData, pendingBackup.data) : null;
+  const conflictCount = preview
+    ? STORE_NAMES.reduce((sum, name) => sum + preview[name].conflicting, 0)
+    : 0;
+  const closedSeasons = pendingBackup ? getSeasonsClosedByMerge(currentData, pendingBackup.data) : [];
+
+  const handleExport = async () => {
+    const backup = await createBackup(currentData);
+    const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `golf-tracker-backup-${new Date().toISOString().split('T')[0]}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      setPendingBackup(await parseBackup(await file.text()));
+      setImportMode('merge');
+    } catch (error) {
+      setPendingBackup(null);
+      toast({
+        title: "Import failed",
+        description: error instanceof Error ? error.message : 'The backup could not be read.',
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleImport = () => {
+    if (!pendingBackup) return;
+
+    const commandId = restoreData(applyImport(currentData, pendingBackup.data, importMode));
+    setPendingBackup(null);
+    setIsConfirmOpen(false);
+    toast({
+      title: "Backup restored",
+      description: importMode === 'merge'
+        ? 'New records from the backup were added.'
+        : 'All data was replaced with the backup.',
+      action: <UndoToastAction commandId={commandId} altText="Undo import" />,
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container max-w-md mx-auto px-4 py-6">
+        {/* Header */}
+        <div className="flex items-center gap-4 mb-6">
+          <Button variant="ghost" size="icon" onClick={() => navigate('/')}>
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold">Backup & Restore</h1>
+            <p className="text-sm text-muted-foreground">Move your data between devices</p>
+          </div>
+        </div>
+
+        {/* Export */}
+        <Card className="mb-6">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Download className="w-5 h-5" />
+              Export Backup
+            </CardTitle>
+            <CardDescription>
+              {players.length} players • {seasons.length} seasons • {courses.length} courses • {rounds.length} rounds
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button className="w-full h-12" onClick={handleExport}>
+              <FileJson className="w-4 h-4 mr-2" />
+              Download Backup File
+            </Button>
+          </CardContent>
+        </Card>
+
+        {/* Import */}
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Upload className="w-5 h-5" />
+              Restore Backup
+            </CardTitle>
+            <CardDescription>Load a backup file created by this app</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={handleFileSelected}
+            />
+            <Button variant="outline" className="w-full h-12" onClick={() => fileInputRef.current?.click()}>
+              Choose Backup File
+            </Button>
+
+            {pendingBackup && preview && (
+              <div className="space-y-4">
+                {pendingBackup.exportedAt && (
+                  <p className="text-sm text-muted-foreground">
+                    Exported {format(new Date(pendingBackup.exportedAt), 'MMM d, yyyy • h:mm a')}
+                  </p>
+                )}
+
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Data</TableHead>
+                      <TableHead className="text-right">New</TableHead>
+                      <TableHead className="text-right">Same</TableHead>
+                      <TableHead className="text-right">Conflicts</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {STORE_NAMES.map(name => (
+                      <TableRow key={name}>
+                        <TableCell className="font-medium">{STORE_LABELS[name]}</TableCell>
+                        <TableCell className="text-right">{preview[name].added}</TableCell>
+                        <TableCell className="text-right text-muted-foreground">{preview[name].identical}</TableCell>
+                        <TableCell className="text-right">{preview[name].conflicting}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+
+                <RadioGroup value={importMode} onValueChange={(v) => setImportMode(v as ImportMode)}>
+                  <div className="flex items-start gap-3">
+                    <RadioGroupItem value="merge" id="import-merge" className="mt-1" />
+                    <Label htmlFor="import-merge" className="font-normal">
+                      <span className="font-medium">Merge</span>
+                      <span className="block text-sm text-muted-foreground">
+                        Add new records and keep your current version of {conflictCount} conflicting record{conflictCount !== 1 ? 's' : ''}
+                      </span>
+                      {closedSeasons.length > 0 && (
+                        <span className="block text-sm text-muted-foreground">
+                          {closedSeasons.map(season => season.name).join(', ')} will be added as completed, since you already have an active season
+                        </span>
+                      )}
+                    </Label>
+                  </div>
+                  <div className="flex items-start gap-3">
+                    <RadioGroupItem value="replace" id="import-replace" className="mt-1" />
+                    <Label htmlFor="import-replace" className="font-normal">
+                      <span className="font-medium">Replace</span>
+                      <span className="block text-sm text-muted-foreground">
+                        Delete all current data and use only the backup
+                      </span>
+                    </Label>
+                  </div>
+                </RadioGroup>
+
+                <div className="flex gap-3">
+                  <Button variant="ghost" className="flex-1" onClick={() => setPendingBackup(null)}>
+                    Cancel
+                  </Button>
+                  <Button
+                    className="flex-1"
+                    onClick={() => importMode === 'replace' ? setIsConfirmOpen(true) : handleImport()}
+                  >
+                    Import
+                  </Button>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <AlertDialog open={isConfirmOpen} onOpenChange={setIsConfirmOpen}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Replace all data?</AlertDialogTitle>
+              <AlertDialogDescription>
+                All current players, seasons, courses and rounds will be replaced by the backup. You can undo this right after importing.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                onClick={handleImport}
+              >
+                Replace
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+    </div>
+  );
+};
+
+export default BackupRestore;
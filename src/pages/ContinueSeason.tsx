@@ -17,13 +17,24 @@ import {
 } from '@/components/ui/alert-dialog';
 import { useGolf } from '@/contexts/GolfContext';
 import { useToast } from '@/hooks/use-toast';
+import { UndoToastAction } from '@/components/UndoToastAction';
 import { ArrowLeft, Plus, Play, Calendar, MapPin, Trophy, Users, ChevronRight, Trash2 } from 'lucide-react';
 import { format } from 'date-fns';
+import { calculateSkins } from '@/lib/skins';
+import { getRoundWinners, getSeasonRules } from '@/lib/scoring';
+import { getSideStablefordTotals } from '@/lib/stableford';
+import { getNassauBets } from '@/lib/nassau';
+import { formatMatchStatus } from '@/lib/matchPlay';
+import { getRoundSides } from '@/lib/teams';
+import { SkinsSummary } from '@/components/round/SkinsSummary';
+import { SideBetsLedger } from '@/components/season/SideBetsLedger';
+import { RoundActions } from '@/components/round/RoundActions';
+import { getRoundHoleCount, isRoundInProgress } from '@/lib/rounds';
 
 const ContinueSeason = () => {
   const navigate = useNavigate();
   const { seasonId } = useParams();
-  const { players, seasons, courses, rounds, deleteSeason } = useGolf();
+  const { players, seasons, courses, rounds, getRoundCurrentHole, deleteSeason, deleteRound, abandonRound, reopenRound } = useGolf();
   const { toast } = useToast();
 
   // If seasonId is provided, show that season's details
@@ -53,20 +64,61 @@ const ContinueSeason = () => {
   };
 
   const getRoundWinner = (round: typeof rounds[0]) => {
-    const scores: Record<string, number> = {};
-    round.holeResults.forEach(hole => {
-      hole.winnerIds.forEach(winnerId => {
-        scores[winnerId] = (scores[winnerId] || 0) + 1;
-      });
-    });
-    
-    const maxScore = Math.max(...Object.values(scores), 0);
-    if (maxScore === 0) return null;
-    
-    const winnerId = Object.entries(scores).find(([, score]) => score === maxScore)?.[0];
+    const [winnerId] = getRoundWinners(round, getSeasonRules(selectedSeason));
     return winnerId ? players.find(p => p.id === winnerId) : null;
   };
 
+  const undoAction = (commandId: string | undefined) => <UndoToastAction commandId={commandId} altText="Undo" />;
+
+  const handleDeleteRound = (round: typeof rounds[0]) => {
+    const commandId = deleteRound(round.id);
+    toast({ title: "Round deleted", description: `${getCourse(round.courseId)?.name ?? 'The round'} has been removed.`, action: undoAction(commandId) });
+  };
+
+  const handleAbandonRound = (round: typeof rounds[0], reason: string) => {
+    const commandId = abandonRound(round.id, reason);
+    toast({ title: "Round abandoned", description: "It no longer counts towards the standings.", action: undoAction(commandId) });
+  };
+
+  // Only one round per season can be in progress
+  const handleReopenRound = (round: typeof rounds[0]) => {
+    if (seasonRounds.some(r => r.id !== round.id && isRoundInProgress(r))) {
+      toast({
+        title: "A round is already in progress",
+        description: "Finish or abandon it before reopening another round.",
+        variant: "destructive",
+      });
+      return;
+    }
+    const commandId = reopenRound(round.id);
+    toast({ title: "Round reopened", description: "Continue it from Start Playing.", action: undoAction(commandId) });
+  };
+
+  const getMatchWinnerLabel = (round: typeof rounds[0]) => {
+    const winnerId = round.matchResult?.winnerId;
+    if (!winnerId) return undefined;
+    return round.teams?.find(team => team.id === winnerId)?.name ?? players.find(p => p.id === winnerId)?.name;
+  };
+
+  // Status of each Nassau bet, e.g. "Front: Alice wins 3&2"
+  const getNassauSummary = (round: typeof rounds[0]) => {
+    const sides = getRoundSides(round).map(side => ({
+      ...side,
+      label: side.name ?? players.find(p => p.id === side.id)?.name ?? 'Unknown',
+    }));
+    return getNassauBets(round).map(bet => `${bet.label}: ${formatMatchStatus(bet.status, sides)}`);
+  };
+
+  const formatStablefordTotals = (round: typeof rounds[0]) => {
+    return Object.entries(getSideStablefordTotals(round))
+      .sort(([, a], [, b]) => b - a)
+      .map(([sideId, points]) => {
+        const name = round.teams?.find(team => team.id === sideId)?.name ?? players.find(p => p.id === sideId)?.name;
+        return `${name ?? 'Unknown'} ${points}`;
+      })
+      .join(' • ');
+  };
+
   // If no season selected, show list of seasons
   if (!selectedSeason) {
     const activeSeasons = seasons.filter(s => s.status === 'active');
@@ -141,7 +193,7 @@ const ContinueSeason = () => {
                               <AlertDialogHeader>
                                 <AlertDialogTitle>Delete Season?</AlertDialogTitle>
                                 <AlertDialogDescription>
-                                  This will permanently delete "{season.name}" and all {seasonRoundCount} associated rounds. This action cannot be undone.
+                                  This will permanently delete "{season.name}" and all {seasonRoundCount} associated rounds. You can undo this right after deleting.
                                 </AlertDialogDescription>
                               </AlertDialogHeader>
                               <AlertDialogFooter>
@@ -149,10 +201,11 @@ const ContinueSeason = () => {
                                 <AlertDialogAction
                                   className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
                                   onClick={() => {
-                                    deleteSeason(season.id);
+                                    const commandId = deleteSeason(season.id);
                                     toast({
                                       title: "Season deleted",
                                       description: `"${season.name}" has been removed.`,
+                                      action: <UndoToastAction commandId={commandId} altText="Undo delete" />,
                                     });
                                   }}
                                 >
@@ -233,6 +286,8 @@ const ContinueSeason = () => {
           </Button>
         </div>
 
+        <SideBetsLedger players={players} courses={courses} rounds={seasonRounds} />
+
         {/* Rounds List */}
         <div className="space-y-3">
           <h2 className="text-sm font-medium text-muted-foreground uppercase tracking-wide">
@@ -253,7 +308,11 @@ const ContinueSeason = () => {
               const totalHoles = round.holeResults.length;
               
               return (
-                <Card key={round.id}>
+                <Card
+                  key={round.id}
+                  className="cursor-pointer hover:border-primary/50 transition-colors"
+                  onClick={() => navigate(`/rounds/${round.id}`)}
+                >
                   <CardContent className="py-4">
                     <div className="flex items-start justify-between">
                       <div className="space-y-1">
@@ -265,18 +324,50 @@ const ContinueSeason = () => {
                           {format(new Date(round.startedAt), 'MMM d, yyyy • h:mm a')}
                         </div>
                         <div className="text-sm text-muted-foreground">
-                          {totalHoles} holes played
+                          {isRoundInProgress(round)
+                            ? `On hole ${getRoundCurrentHole(round.id)} of ${getRoundHoleCount(round, course)}`
+                            : `${totalHoles} holes played`}
+                          {round.format === 'skins' && ' • Skins'}{round.format === 'wolf' && ' • Wolf'}
+                          {!!round.corrections?.length && ' • Corrected'}
+                          {round.teams && ` • ${round.teams.map(team => team.name).join(' vs ')}`}
                         </div>
+                        {round.format === 'stableford' && (
+                          <div className="text-sm">
+                            Stableford: {formatStablefordTotals(round)}
+                          </div>
+                        )}
+                        {round.format === 'nassau' && getNassauSummary(round).map(line => (
+                          <div key={line} className="text-sm">{line}</div>
+                        ))}
+                        {round.abandonReason && (
+                          <div className="text-sm text-muted-foreground italic">Abandoned: {round.abandonReason}</div>
+                        )}
+                        {round.matchResult && (
+                          <div className="text-sm font-medium">
+                            Match: {getMatchWinnerLabel(round) ?? 'Halved'}
+                            {round.matchResult.winnerId && ` ${round.matchResult.result}`}
+                          </div>
+                        )}
                       </div>
                       <div className="text-right">
-                        {round.completedAt ? (
-                          <Badge variant="secondary" className="bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-300">
-                            Completed
-                          </Badge>
-                        ) : (
-                          <Badge variant="outline">In Progress</Badge>
-                        )}
-                        {winner && (
+                        <div className="flex items-center justify-end gap-1">
+                          {round.abandonedAt ? (
+                            <Badge variant="outline" className="text-muted-foreground">Abandoned</Badge>
+                          ) : round.completedAt ? (
+                            <Badge variant="secondary" className="bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-300">
+                              Completed
+                            </Badge>
+                          ) : (
+                            <Badge variant="outline">In Progress</Badge>
+                          )}
+                          <RoundActions
+                            round={round}
+                            onDelete={() => handleDeleteRound(round)}
+                            onAbandon={(reason) => handleAbandonRound(round, reason)}
+                            onReopen={() => handleReopenRound(round)}
+                          />
+                        </div>
+                        {winner && !round.abandonedAt && (
                           <div className="flex items-center gap-1 mt-2 text-sm">
                             <Trophy className="w-3 h-3 text-amber-500" />
                             <span>{winner.name}</span>
@@ -284,6 +375,14 @@ const ContinueSeason = () => {
                         )}
                       </div>
                     </div>
+                    {round.format === 'skins' && (
+                      <div className="mt-3 pt-3 border-t">
+                        <SkinsSummary
+                          sides={round.teams ?? players.filter(p => round.playerIds.includes(p.id))}
+                          result={calculateSkins(round)}
+                        />
+                      </div>
+                    )}
                   </CardContent>
                 </Card>
               );
@@ -2,11 +2,33 @@ import { useNavigate } from 'react-router-dom';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { useGolf } from '@/contexts/GolfContext';
-import { Users, Plus, Play, Trophy, BarChart3 } from 'lucide-react';
+import { Users, Plus, Play, Trophy, BarChart3, AlertCircle, HardDrive, Undo2, Redo2, Cloud, CloudOff } from 'lucide-react';
+
+const SYNC_STATUS_LABELS = {
+  syncing: 'Syncing…',
+  synced: 'Synced with other devices',
+  offline: 'Sync server unreachable',
+  otherTab: 'Synced by another open tab',
+};
 
 const Index = () => {
   const navigate = useNavigate();
-  const { players, rounds, getActiveSeason, isLoading } = useGolf();
+  const {
+    players,
+    rounds,
+    quarantine,
+    getActiveSeason,
+    dismissQuarantine,
+    canUndo,
+    canRedo,
+    undoLabel,
+    redoLabel,
+    undo,
+    redo,
+    isLoading,
+    remoteSyncStatus,
+    pendingSyncChanges,
+  } = useGolf();
 
   const activeSeason = getActiveSeason();
   const seasonPlayers = activeSeason 
@@ -34,8 +56,51 @@ const Index = () => {
           </div>
           <h1 className="text-3xl font-bold tracking-tight">Golf Tracker</h1>
           <p className="text-muted-foreground mt-1">Season & Statistics</p>
+          {remoteSyncStatus !== 'off' && (
+            <p className="inline-flex items-center gap-1 text-xs text-muted-foreground mt-2">
+              {remoteSyncStatus === 'offline' ? <CloudOff className="w-3 h-3" /> : <Cloud className="w-3 h-3" />}
+              {SYNC_STATUS_LABELS[remoteSyncStatus]}
+              {pendingSyncChanges > 0 && ` • ${pendingSyncChanges} change${pendingSyncChanges !== 1 ? 's' : ''} waiting`}
+            </p>
+          )}
         </div>
 
+        {/* Undo / Redo */}
+        {(canUndo || canRedo) && (
+          <div className="flex justify-center gap-2 mb-6">
+            <Button variant="ghost" size="sm" disabled={!canUndo} onClick={() => undo()}>
+              <Undo2 className="w-4 h-4 mr-1" />
+              {undoLabel ? `Undo ${undoLabel.toLowerCase()}` : 'Undo'}
+            </Button>
+            <Button variant="ghost" size="sm" disabled={!canRedo} onClick={() => redo()}>
+              <Redo2 className="w-4 h-4 mr-1" />
+              {redoLabel ? `Redo ${redoLabel.toLowerCase()}` : 'Redo'}
+            </Button>
+          </div>
+        )}
+
+        {/* Records that failed validation on load */}
+        {quarantine.length > 0 && (
+          <Card className="mb-6 border-amber-200 bg-amber-50 dark:border-amber-900 dark:bg-amber-950/20">
+            <CardContent className="py-4">
+              <div className="flex gap-3">
+                <AlertCircle className="w-5 h-5 text-amber-600 flex-shrink-0 mt-0.5" />
+                <div className="flex-1 text-sm">
+                  <p className="font-medium text-amber-800 dark:text-amber-200">
+                    {quarantine.length} record{quarantine.length !== 1 ? 's' : ''} could not be loaded
+                  </p>
+                  <p className="text-amber-700 dark:text-amber-300">
+                    Some saved data was invalid and has been set aside so the rest of your data stays usable.
+                  </p>
+                </div>
+                <Button variant="ghost" size="sm" onClick={dismissQuarantine}>
+                  Dismiss
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Current Season Status */}
         {activeSeason && (
           <Card className="mb-6 border-primary/20 bg-primary/5">
@@ -110,6 +175,16 @@ const Index = () => {
             <BarChart3 className="w-5 h-5 mr-2" />
             Statistics
           </Button>
+
+          <Button 
+            variant="outline"
+            className="w-full h-14 text-lg" 
+            size="lg"
+            onClick={() => navigate('/backup')}
+          >
+            <HardDrive className="w-5 h-5 mr-2" />
+            Backup & Restore
+          </Button>
         </div>
 
         {/* Player Count */}
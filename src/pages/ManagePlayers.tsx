@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -26,15 +26,23 @@ import {
   AlertDialogTrigger,
 } from '@/components/ui/alert-dialog';
 import { useGolf } from '@/contexts/GolfContext';
+import { useToast } from '@/hooks/use-toast';
+import { UndoToastAction } from '@/components/UndoToastAction';
 import { ArrowLeft, Plus, Trash2, User } from 'lucide-react';
+import { formatHandicap, getHandicapIndexes } from '@/lib/handicap';
 
 const ManagePlayers = () => {
   const navigate = useNavigate();
-  const { players, addPlayer, removePlayer } = useGolf();
+  const { toast } = useToast();
+  const { players, courses, rounds, addPlayer, removePlayer } = useGolf();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [newPlayerName, setNewPlayerName] = useState('');
   const [newPlayerAvatar, setNewPlayerAvatar] = useState('');
 
+  const handicapIndexes = useMemo(() => {
+    return getHandicapIndexes(rounds, courses, players.map(p => p.id));
+  }, [rounds, courses, players]);
+
   const handleAddPlayer = () => {
     if (newPlayerName.trim()) {
       addPlayer(newPlayerName.trim(), newPlayerAvatar || undefined);
@@ -44,6 +52,15 @@ const ManagePlayers = () => {
     }
   };
 
+  const handleRemovePlayer = (playerId: string, name: string) => {
+    const commandId = removePlayer(playerId);
+    toast({
+      title: "Player removed",
+      description: `${name} has been removed from the roster.`,
+      action: <UndoToastAction commandId={commandId} altText="Undo remove" />,
+    });
+  };
+
   const getInitials = (name: string) => {
     return name
       .split(' ')
@@ -93,7 +110,14 @@ const ManagePlayers = () => {
                           {getInitials(player.name)}
                         </AvatarFallback>
                       </Avatar>
-                      <span className="font-medium">{player.name}</span>
+                      <div>
+                        <span className="font-medium">{player.name}</span>
+                        <p className="text-xs text-muted-foreground">
+                          {handicapIndexes[player.id] !== undefined
+                            ? `Handicap ${formatHandicap(handicapIndexes[player.id])}`
+                            : 'No handicap yet'}
+                        </p>
+                      </div>
                     </div>
                     
                     <AlertDialog>
@@ -106,13 +130,13 @@ const ManagePlayers = () => {
                         <AlertDialogHeader>
                           <AlertDialogTitle>Remove Player</AlertDialogTitle>
                           <AlertDialogDescription>
-                            Are you sure you want to remove {player.name}? This action cannot be undone.
+                            Are you sure you want to remove {player.name}? You can undo this right after removing.
                           </AlertDialogDescription>
                         </AlertDialogHeader>
                         <AlertDialogFooter>
                           <AlertDialogCancel>Cancel</AlertDialogCancel>
                           <AlertDialogAction
-                            onClick={() => removePlayer(player.id)}
+                            onClick={() => handleRemovePlayer(player.id, player.name)}
                             className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
                           >
                             Remove
@@ -6,9 +6,25 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { useGolf } from '@/contexts/GolfContext';
 import { useToast } from '@/hooks/use-toast';
 import { ArrowLeft, Users, AlertCircle } from 'lucide-react';
+import { ScoringRules, StablefordTable, Stakes } from '@/types/golf';
+import { DEFAULT_SCORING_RULES } from '@/lib/scoring';
+
+const STAKE_FIELDS: Array<{ key: keyof Stakes; label: string }> = [
+  { key: 'perHole', label: 'Per hole won' },
+  { key: 'perSkin', label: 'Per skin' },
+  { key: 'perNassauBet', label: 'Per Nassau bet' },
+  { key: 'perPoint', label: 'Per Stableford/Wolf point' },
+];
 
 const NewSeason = () => {
   const navigate = useNavigate();
@@ -16,6 +32,8 @@ const NewSeason = () => {
   const { players, createSeason, getActiveSeason } = useGolf();
   const [seasonName, setSeasonName] = useState('');
   const [selectedPlayerIds, setSelectedPlayerIds] = useState<string[]>([]);
+  const [rules, setRules] = useState<ScoringRules>(DEFAULT_SCORING_RULES);
+  const [stakes, setStakes] = useState<Stakes>({ perHole: 0, perSkin: 0, perNassauBet: 0, perPoint: 0 });
 
   const activeSeason = getActiveSeason();
 
@@ -27,6 +45,16 @@ const NewSeason = () => {
     );
   };
 
+  const updatePoints = (field: 'pointsPerHole' | 'holeInOneBonus' | 'roundWinPoints', value: string) => {
+    const points = parseFloat(value);
+    setRules(prev => ({ ...prev, [field]: Number.isNaN(points) || points < 0 ? 0 : points }));
+  };
+
+  const updateStake = (field: keyof Stakes, value: string) => {
+    const amount = parseFloat(value);
+    setStakes(prev => ({ ...prev, [field]: Number.isNaN(amount) || amount < 0 ? 0 : amount }));
+  };
+
   const handleSelectAll = () => {
     if (selectedPlayerIds.length === players.length) {
       setSelectedPlayerIds([]);
@@ -54,7 +82,9 @@ const NewSeason = () => {
       return;
     }
 
-    createSeason(seasonName.trim(), selectedPlayerIds);
+    // Seasons without any stake don't play for money
+    const playsForMoney = Object.values(stakes).some(stake => stake > 0);
+    createSeason(seasonName.trim(), selectedPlayerIds, rules, playsForMoney ? stakes : undefined);
     toast({
       title: "Season created!",
       description: `"${seasonName}" is now active with ${selectedPlayerIds.length} players.`,
@@ -176,6 +206,119 @@ const NewSeason = () => {
           </CardContent>
         </Card>
 
+        {/* Points Rules */}
+        <Card className="mb-6">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg">Points Rules</CardTitle>
+            <CardDescription>How players earn points over the season</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label>Scoring</Label>
+              <Select
+                value={rules.stableford ?? 'holes'}
+                onValueChange={(v) => setRules(prev => ({
+                  ...prev,
+                  stableford: v === 'holes' ? undefined : v as StablefordTable,
+                }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="holes">Points per hole won</SelectItem>
+                  <SelectItem value="standard">Stableford (standard)</SelectItem>
+                  <SelectItem value="modified">Stableford (modified)</SelectItem>
+                </SelectContent>
+              </Select>
+              {rules.stableford && (
+                <p className="text-xs text-muted-foreground">
+                  Rounds default to Stableford and score their Stableford points
+                </p>
+              )}
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="points-per-hole">Per hole won</Label>
+                <Input
+                  id="points-per-hole"
+                  type="number"
+                  inputMode="decimal"
+                  min={0}
+                  step="0.5"
+                  value={rules.pointsPerHole}
+                  onChange={(e) => updatePoints('pointsPerHole', e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Tied holes</Label>
+                <Select
+                  value={rules.tieMode}
+                  onValueChange={(v) => setRules(prev => ({ ...prev, tieMode: v as ScoringRules['tieMode'] }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="full">Full points each</SelectItem>
+                    <SelectItem value="split">Split points</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="hole-in-one-bonus">Hole-in-one bonus</Label>
+                <Input
+                  id="hole-in-one-bonus"
+                  type="number"
+                  inputMode="decimal"
+                  min={0}
+                  step="0.5"
+                  value={rules.holeInOneBonus}
+                  onChange={(e) => updatePoints('holeInOneBonus', e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="round-win-points">Round win</Label>
+                <Input
+                  id="round-win-points"
+                  type="number"
+                  inputMode="decimal"
+                  min={0}
+                  step="0.5"
+                  value={rules.roundWinPoints}
+                  onChange={(e) => updatePoints('roundWinPoints', e.target.value)}
+                />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Side Bets */}
+        <Card className="mb-6">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg">Side Bets</CardTitle>
+            <CardDescription>Optional stakes each losing player pays, settled after every round</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-2 gap-3">
+              {STAKE_FIELDS.map(field => (
+                <div key={field.key} className="space-y-2">
+                  <Label htmlFor={`stake-${field.key}`}>{field.label}</Label>
+                  <Input
+                    id={`stake-${field.key}`}
+                    type="number"
+                    inputMode="decimal"
+                    min={0}
+                    step="0.5"
+                    value={stakes[field.key]}
+                    onChange={(e) => updateStake(field.key, e.target.value)}
+                  />
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+
         {/* Create Button */}
         <Button
           className="w-full h-14 text-lg"
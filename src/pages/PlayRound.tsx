@@ -1,5 +1,5 @@
-import { useState, useMemo } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useState, useMemo, useEffect, useCallback, useRef } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
@@ -7,6 +7,7 @@ import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
 import {
   Select,
   SelectContent,
@@ -16,20 +17,68 @@ import {
 } from '@/components/ui/select';
 import { useGolf } from '@/contexts/GolfContext';
 import { useToast } from '@/hooks/use-toast';
-import { ArrowLeft, ChevronLeft, ChevronRight, Flag, Trophy, Star } from 'lucide-react';
-import { Player } from '@/types/golf';
+import { StrokeEntry } from '@/components/round/StrokeEntry';
+import { GameFormatSelect } from '@/components/round/GameFormatSelect';
+import { SkinsSummary } from '@/components/round/SkinsSummary';
+import { TeamSetup } from '@/components/round/TeamSetup';
+import { Scorecard } from '@/components/round/Scorecard';
+import { ArrowLeft, ChevronLeft, ChevronRight, Coins, Dog, Flag, Trophy, Star, Hash, Swords, Table2, Users } from 'lucide-react';
+import { GameFormat, HoleResult, StablefordTable, Team, TeamFormat, WolfChoice } from '@/types/golf';
+import { deriveWinnersFromStrokes, getRoundGrossScores, hasStrokes } from '@/lib/strokes';
+import { formatDistance, getCourseHole, PAR_OPTIONS } from '@/lib/courseHoles';
+import { calculateSkins, getSkinValue } from '@/lib/skins';
+import { formatPoints, getRoundPoints, getSeasonRules, getSidePoints } from '@/lib/scoring';
+import { getRoundSides, getTeamMemberIds } from '@/lib/teams';
+import { formatMatchStatus, getMatchResult, getMatchStatus } from '@/lib/matchPlay';
+import { getRoundStablefordTotals, STABLEFORD_TABLE_LABELS } from '@/lib/stableford';
+import { getWolfId, WOLF_POINTS } from '@/lib/wolf';
+import { getNassauBets, getNassauSegments } from '@/lib/nassau';
+import { getHandicapHoleCount, getHoleStrokeIndex, getRoundNetScores, getStrokesReceived } from '@/lib/handicap';
+import {
+  createHoleResult,
+  getHoleStrokeWinners,
+  getRoundFormatDefaults,
+  getRoundHoleCount,
+  getRoundSetupProblem,
+  isRoundInProgress,
+} from '@/lib/rounds';
+
+type EntryMode = 'winners' | 'strokes';
 
 const PlayRound = () => {
   const navigate = useNavigate();
+  const location = useLocation();
   const { toast } = useToast();
-  const { players, courses, rounds, getActiveSeason, createRound, updateRoundHole, completeRound, addCourse } = useGolf();
+  const {
+    players,
+    courses,
+    rounds,
+    getActiveSeason,
+    createRound,
+    updateRoundHole,
+    getRoundCurrentHole,
+    setRoundCurrentHole,
+    completeRound,
+    addCourse,
+  } = useGolf();
   
   const activeSeason = getActiveSeason();
-  const [currentHole, setCurrentHole] = useState(1);
   const [selectedWinners, setSelectedWinners] = useState<string[]>([]);
   const [holeInOnePlayers, setHoleInOnePlayers] = useState<string[]>([]);
-  const [activeRoundId, setActiveRoundId] = useState<string | null>(null);
-  const [totalHoles, setTotalHoles] = useState(18);
+  const [holeStrokes, setHoleStrokes] = useState<Record<string, number>>({});
+  const [entryMode, setEntryMode] = useState<EntryMode>('winners');
+  // A round started from Add Course is passed in, otherwise the season's round in progress is resumed
+  const [activeRoundId, setActiveRoundId] = useState<string | null>(location.state?.roundId ?? null);
+  const [holeCountChoice, setHoleCountChoice] = useState<number>();
+  const [netScoring, setNetScoring] = useState(false);
+  const [gameFormat, setGameFormat] = useState<GameFormat>();
+  const [stablefordTable, setStablefordTable] = useState<StablefordTable>();
+  const [holePar, setHolePar] = useState<number>();
+  const [teams, setTeams] = useState<Team[] | undefined>();
+  const [teamFormat, setTeamFormat] = useState<TeamFormat>('betterBall');
+  const [wolfChoice, setWolfChoice] = useState<WolfChoice>();
+  const [nassauPresses, setNassauPresses] = useState(false);
+  const [showScorecard, setShowScorecard] = useState(false);
 
   // Get active round or create a new one
   const activeRound = useMemo(() => {
@@ -37,7 +86,7 @@ const PlayRound = () => {
       return rounds.find(r => r.id === activeRoundId);
     }
     // Find incomplete round for current season
-    return rounds.find(r => r.seasonId === activeSeason?.id && !r.completedAt);
+    return rounds.find(r => r.seasonId === activeSeason?.id && isRoundInProgress(r));
   }, [rounds, activeRoundId, activeSeason?.id]);
 
   // Get season players
@@ -46,53 +95,167 @@ const PlayRound = () => {
     return players.filter(p => activeSeason.playerIds.includes(p.id));
   }, [players, activeSeason]);
 
+  // Players in the round being scored, who may differ from the season's current players
+  const roundPlayers = useMemo(() => {
+    if (!activeRound) return [];
+    return players.filter(p => activeRound.playerIds.includes(p.id));
+  }, [players, activeRound]);
+
+  // Course layout for the current hole, when the course defines one
+  const activeCourse = useMemo(() => {
+    return activeRound ? courses.find(c => c.id === activeRound.courseId) : undefined;
+  }, [courses, activeRound]);
+
+  // New rounds default to the course's holes. Once started, the hole count is stored on
+  // the round and the current hole on this device, so a reload resumes where play left off.
+  const setupHoles = holeCountChoice ?? courses[0]?.holesPerCourse ?? 18;
+  const totalHoles = activeRound ? getRoundHoleCount(activeRound, activeCourse) : setupHoles;
+  const currentHole = activeRound ? getRoundCurrentHole(activeRound.id) : 1;
+
+  const currentCourseHole = getCourseHole(activeCourse, currentHole);
+
+  // Team rounds record winners per team; scrambles also record strokes per team
+  const roundTeams = activeRound?.teams?.length ? activeRound.teams : undefined;
+  const isScramble = !!roundTeams && activeRound?.teamFormat === 'scramble';
+
+  // Scorecard columns: the round's players, or its teams in a scramble
+  const scorecardColumns = useMemo(() => {
+    if (!activeRound) return [];
+    return isScramble ? roundTeams ?? [] : roundPlayers;
+  }, [activeRound, isScramble, roundTeams, roundPlayers]);
+
   // Get current hole data
   const currentHoleData = useMemo(() => {
     if (!activeRound) return null;
     return activeRound.holeResults.find(h => h.holeNumber === currentHole);
   }, [activeRound, currentHole]);
 
-  // Calculate scores (highest wins)
+  const { format: roundFormat, stablefordTable: roundStablefordTable } =
+    getRoundFormatDefaults(activeSeason, gameFormat, stablefordTable);
+
+  // Stableford scores every hole against par, so it always takes strokes
+  const isStableford = activeRound?.format === 'stableford';
+  const currentPar = holePar ?? currentCourseHole?.par ?? (isStableford ? 4 : undefined);
+
+  // Resume stroke entry for rounds that already have strokes recorded
+  const activeRoundHasStrokes = !!activeRound?.holeResults.some(hasStrokes);
+  useEffect(() => {
+    if (activeRoundHasStrokes || isStableford) setEntryMode('strokes');
+  }, [activeRound?.id, activeRoundHasStrokes, isStableford]);
+
+  // The wolf rotates through the players; the partner choice is made before the result is entered
+  const isWolf = activeRound?.format === 'wolf';
+  const currentWolfId = isWolf ? getWolfId(activeRound, currentHole) : undefined;
+
+  const stablefordTotals = useMemo(() => {
+    return activeRound && isStableford ? getRoundStablefordTotals(activeRound) : undefined;
+  }, [activeRound, isStableford]);
+
+  // In stroke mode the hole winners are whoever took the fewest strokes
+  const strokeWinners = useMemo(() => {
+    if (!activeRound) return deriveWinnersFromStrokes(holeStrokes);
+    return getHoleStrokeWinners(activeRound, activeCourse, currentHole, holeStrokes);
+  }, [holeStrokes, activeRound, activeCourse, currentHole]);
+
+  const grossScores = useMemo(() => {
+    return activeRound ? getRoundGrossScores(activeRound) : {};
+  }, [activeRound]);
+
+  const netScores = useMemo(() => {
+    return activeRound?.netScoring && !isScramble ? getRoundNetScores(activeRound, activeCourse) : undefined;
+  }, [activeRound, activeCourse, isScramble]);
+
+  const holeStrokesReceived = useMemo(() => {
+    if (!activeRound?.netScoring) return undefined;
+    const holeCount = getHandicapHoleCount(activeRound, activeCourse);
+    const strokeIndex = getHoleStrokeIndex(activeCourse, currentHole, holeCount);
+    return Object.fromEntries(
+      Object.entries(activeRound.handicaps ?? {}).map(([playerId, courseHandicap]) => [
+        playerId,
+        getStrokesReceived(courseHandicap, strokeIndex, holeCount),
+      ])
+    );
+  }, [activeRound, activeCourse, currentHole]);
+
+  const skinsResult = useMemo(() => {
+    return activeRound?.format === 'skins' ? calculateSkins(activeRound) : undefined;
+  }, [activeRound]);
+
+  // Calculate scores with the season's points rules (highest wins)
   const playerScores = useMemo(() => {
     if (!activeRound) return {};
     const scores: Record<string, number> = {};
-    seasonPlayers.forEach(p => { scores[p.id] = 0; });
-    
-    activeRound.holeResults.forEach(hole => {
-      hole.winnerIds.forEach(winnerId => {
-        scores[winnerId] = (scores[winnerId] || 0) + 1;
-      });
-    });
-    
-    return scores;
-  }, [activeRound, seasonPlayers]);
-
-  // Load current hole data when navigating
-  useState(() => {
-    if (currentHoleData) {
-      setSelectedWinners(currentHoleData.winnerIds);
-      setHoleInOnePlayers(currentHoleData.holeInOnePlayerIds);
-    } else {
-      setSelectedWinners([]);
-      setHoleInOnePlayers([]);
-    }
-  });
+    roundPlayers.forEach(p => { scores[p.id] = 0; });
+    return { ...scores, ...getRoundPoints(activeRound, getSeasonRules(activeSeason)) };
+  }, [activeRound, roundPlayers, activeSeason]);
+
+  // Team hole points (team rounds only)
+  const teamScores = useMemo(() => {
+    return activeRound && roundTeams ? getSidePoints(activeRound, getSeasonRules(activeSeason)) : {};
+  }, [activeRound, roundTeams, activeSeason]);
+
+  // Match play and Nassau status from the saved holes, with each side labelled by player or team name
+  const matchSides = useMemo(() => {
+    if (activeRound?.format !== 'match' && activeRound?.format !== 'nassau') return [];
+    return getRoundSides(activeRound).map(side => ({
+      ...side,
+      label: side.name ?? players.find(p => p.id === side.id)?.name ?? 'Unknown',
+    }));
+  }, [activeRound, players]);
+
+  const matchStatus = useMemo(() => {
+    return activeRound?.format === 'match' ? getMatchStatus(activeRound, totalHoles) : undefined;
+  }, [activeRound, totalHoles]);
+
+  const nassauBets = useMemo(() => {
+    return activeRound?.format === 'nassau' ? getNassauBets(activeRound) : undefined;
+  }, [activeRound]);
+
+  const isTeamPlay = !!roundTeams;
+  const loadHoleState = useCallback((hole: HoleResult | undefined) => {
+    setSelectedWinners((isTeamPlay ? hole?.winnerTeamIds : hole?.winnerIds) ?? []);
+    setHoleInOnePlayers(hole?.holeInOnePlayerIds ?? []);
+    setHoleStrokes((isScramble ? hole?.teamStrokes : hole?.strokes) ?? {});
+    setHolePar(hole?.par);
+    setWolfChoice(hole?.wolf);
+  }, [isTeamPlay, isScramble]);
+
+  // Load the hole's saved result when the round loads, play moves to another hole
+  // or the hole is saved again. Other edits rebuild the round, and with it the hole
+  // object, so the effect goes by the save time to keep what is being entered.
+  const currentHoleDataRef = useRef(currentHoleData);
+  currentHoleDataRef.current = currentHoleData;
+  const currentHoleSavedAt = currentHoleData?.updatedAt;
+  useEffect(() => {
+    loadHoleState(currentHoleDataRef.current ?? undefined);
+  }, [loadHoleState, activeRound?.id, currentHole, currentHoleSavedAt]);
 
   const handleStartRound = () => {
     if (!activeSeason) return;
     
-    // Create a default course if none exists
-    let courseId = courses[0]?.id;
-    if (!courseId) {
-      const newCourse = addCourse('Default Course', 1, totalHoles);
-      courseId = newCourse.id;
+    const problem = getRoundSetupProblem(roundFormat, activeSeason.playerIds, teams);
+    if (problem) {
+      toast({ ...problem, variant: "destructive" });
+      return;
     }
-    
-    const newRound = createRound(activeSeason.id, courseId, activeSeason.playerIds);
+
+    // Create a default course if none exists
+    const course = courses[0] ?? addCourse('Default Course', 1, setupHoles);
+    const courseId = course.id;
+
+    const newRound = createRound(activeSeason.id, courseId, activeSeason.playerIds, {
+      netScoring,
+      format: roundFormat,
+      stablefordTable: roundStablefordTable,
+      nassau: { segments: getNassauSegments(setupHoles, course.holesPerCourse), presses: nassauPresses },
+      teams,
+      teamFormat,
+      holeCount: setupHoles,
+    });
     setActiveRoundId(newRound.id);
     toast({
       title: "Round started!",
-      description: `Playing ${totalHoles} holes.`,
+      description: `Playing ${setupHoles} holes.`,
     });
   };
 
@@ -112,49 +275,106 @@ const PlayRound = () => {
     );
   };
 
+  const handleStrokesChange = (playerId: string, strokes: number | undefined) => {
+    setHoleStrokes(prev => {
+      const next = { ...prev };
+      if (strokes === undefined) delete next[playerId];
+      else next[playerId] = strokes;
+      return next;
+    });
+    // A one-stroke hole is an ace (scramble scores belong to teams, not players)
+    if (isScramble) return;
+    setHoleInOnePlayers(prev => {
+      const others = prev.filter(id => id !== playerId);
+      return strokes === 1 ? [...others, playerId] : others;
+    });
+  };
+
+  const buildHoleResult = (holeNumber: number): HoleResult => createHoleResult(activeRound, activeCourse, {
+    holeNumber,
+    winners: selectedWinners,
+    strokes: entryMode === 'strokes' ? holeStrokes : undefined,
+    holeInOnePlayerIds: holeInOnePlayers,
+    par: isStableford ? currentPar : undefined,
+    wolf: wolfChoice,
+  });
+
+  const hasHoleInput = () =>
+    selectedWinners.length > 0 || holeInOnePlayers.length > 0 || Object.keys(holeStrokes).length > 0;
+
+  // Wolf holes can't be scored until the wolf has picked
+  const canSaveHole = () => !isWolf || !!wolfChoice;
+
+  const handleSelectWolfPartner = (partnerId: string | undefined) => {
+    if (!currentWolfId) return;
+    setWolfChoice(wolfChoice && wolfChoice.partnerId === partnerId ? undefined : { wolfId: currentWolfId, partnerId });
+  };
+
+  // Returns whether the hole was saved
   const handleSaveHole = () => {
-    if (!activeRound) return;
+    if (!activeRound) return false;
+    if (!canSaveHole()) {
+      toast({
+        title: "Pick the wolf's partner",
+        description: "Choose a partner or go lone wolf before saving the hole.",
+        variant: "destructive",
+      });
+      return false;
+    }
     
-    updateRoundHole(activeRound.id, currentHole, selectedWinners, holeInOnePlayers);
+    const result = buildHoleResult(currentHole);
+    const winnerCount = (result.winnerTeamIds ?? result.winnerIds).length;
+    updateRoundHole(activeRound.id, result);
     toast({
       title: `Hole ${currentHole} saved`,
-      description: selectedWinners.length 
-        ? `${selectedWinners.length} winner${selectedWinners.length > 1 ? 's' : ''}`
-        : 'No winners recorded',
+      description: skinsResult && winnerCount !== 1
+        ? 'No outright winner, the skins carry over'
+        : winnerCount
+          ? `${winnerCount} winner${winnerCount > 1 ? 's' : ''}`
+          : 'No winners recorded',
     });
+    return true;
+  };
+
+  const handleSaveAndNext = () => {
+    if (handleSaveHole()) setRoundCurrentHole(activeRound.id, currentHole + 1);
   };
 
   const handleNavigateHole = (hole: number) => {
     // Auto-save current hole before navigating
-    if (activeRound && (selectedWinners.length > 0 || holeInOnePlayers.length > 0)) {
-      updateRoundHole(activeRound.id, currentHole, selectedWinners, holeInOnePlayers);
+    if (!activeRound) return;
+    if (hasHoleInput() && canSaveHole()) {
+      updateRoundHole(activeRound.id, buildHoleResult(currentHole));
     }
     
-    setCurrentHole(hole);
-    
-    // Load new hole data
-    const newHoleData = activeRound?.holeResults.find(h => h.holeNumber === hole);
-    if (newHoleData) {
-      setSelectedWinners(newHoleData.winnerIds);
-      setHoleInOnePlayers(newHoleData.holeInOnePlayerIds);
-    } else {
-      setSelectedWinners([]);
-      setHoleInOnePlayers([]);
-    }
+    setRoundCurrentHole(activeRound.id, hole);
   };
 
   const handleFinishRound = () => {
     if (!activeRound) return;
     
     // Save current hole first
-    if (selectedWinners.length > 0 || holeInOnePlayers.length > 0) {
-      updateRoundHole(activeRound.id, currentHole, selectedWinners, holeInOnePlayers);
+    let finalRound = activeRound;
+    if (hasHoleInput() && canSaveHole()) {
+      const result = buildHoleResult(currentHole);
+      updateRoundHole(activeRound.id, result);
+      finalRound = {
+        ...activeRound,
+        holeResults: [...activeRound.holeResults.filter(h => h.holeNumber !== currentHole), result],
+      };
     }
+
+    const matchResult = finalRound.format === 'match'
+      ? getMatchResult(getMatchStatus(finalRound, totalHoles))
+      : undefined;
+    const matchWinner = matchSides.find(side => side.id === matchResult?.winnerId);
     
-    completeRound(activeRound.id);
+    completeRound(activeRound.id, matchResult);
     toast({
-      title: "Round complete!",
-      description: "Great game! Check the statistics for results.",
+      title: matchResult ? "Match complete!" : "Round complete!",
+      description: matchResult
+        ? matchWinner ? `${matchWinner.label} wins ${matchResult.result}.` : 'The match is halved.'
+        : "Great game! Check the statistics for results.",
     });
     navigate('/');
   };
@@ -164,7 +384,7 @@ const PlayRound = () => {
   };
 
   const getLeader = () => {
-    const entries = Object.entries(playerScores);
+    const entries = Object.entries(roundTeams ? teamScores : playerScores);
     if (entries.length === 0) return null;
     const maxScore = Math.max(...entries.map(([, score]) => score));
     if (maxScore === 0) return null;
@@ -216,7 +436,7 @@ const PlayRound = () => {
             <CardContent className="space-y-4">
               <div className="space-y-2">
                 <Label>Number of Holes</Label>
-                <Select value={totalHoles.toString()} onValueChange={(v) => setTotalHoles(parseInt(v))}>
+                <Select value={setupHoles.toString()} onValueChange={(v) => setHoleCountChoice(parseInt(v))}>
                   <SelectTrigger>
                     <SelectValue />
                   </SelectTrigger>
@@ -229,6 +449,31 @@ const PlayRound = () => {
                 </Select>
               </div>
 
+              <GameFormatSelect
+                value={roundFormat}
+                onChange={setGameFormat}
+                stablefordTable={roundStablefordTable}
+                onStablefordTableChange={setStablefordTable}
+                nassauPresses={nassauPresses}
+                onNassauPressesChange={setNassauPresses}
+              />
+
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label htmlFor="net-scoring">Net scoring</Label>
+                  <p className="text-xs text-muted-foreground">Apply handicap strokes when deciding hole winners</p>
+                </div>
+                <Switch id="net-scoring" checked={netScoring} onCheckedChange={setNetScoring} />
+              </div>
+
+              <TeamSetup
+                players={seasonPlayers}
+                teams={teams}
+                teamFormat={teamFormat}
+                onTeamsChange={setTeams}
+                onTeamFormatChange={setTeamFormat}
+              />
+
               <div className="pt-2">
                 <Label className="text-muted-foreground">Players in this round:</Label>
                 <div className="flex flex-wrap gap-2 mt-2">
@@ -252,6 +497,7 @@ const PlayRound = () => {
   }
 
   const leader = getLeader();
+  const currentSkinValue = skinsResult ? getSkinValue(activeRound, currentHole) : 0;
 
   return (
     <div className="min-h-screen bg-background">
@@ -267,13 +513,57 @@ const PlayRound = () => {
               <p className="text-sm text-muted-foreground">
                 Hole {currentHole} of {totalHoles}
               </p>
+              {currentCourseHole && (
+                <p className="text-xs text-muted-foreground">
+                  Par {currentCourseHole.par}
+                  {currentCourseHole.strokeIndex && ` • SI ${currentCourseHole.strokeIndex}`}
+                  {activeCourse?.tees?.filter(tee => currentCourseHole.distances[tee.id]).map(tee => (
+                    ` • ${tee.name} ${formatDistance(currentCourseHole.distances[tee.id], activeCourse.distanceUnit)}`
+                  ))}
+                </p>
+              )}
             </div>
           </div>
-          <Button variant="outline" size="sm" onClick={handleFinishRound}>
-            Finish
-          </Button>
+          <div className="flex items-center gap-2">
+            <Button
+              variant={showScorecard ? 'default' : 'outline'}
+              size="icon"
+              className="h-9 w-9"
+              onClick={() => setShowScorecard(!showScorecard)}
+            >
+              <Table2 className="w-4 h-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleFinishRound}>
+              Finish
+            </Button>
+          </div>
         </div>
 
+        {/* Scorecard */}
+        {showScorecard && (
+          <Card className="mb-4">
+            <CardHeader className="pb-3">
+              <CardTitle className="text-lg">Scorecard</CardTitle>
+              <CardDescription>Tap a hole to go to it</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Scorecard
+                round={activeRound}
+                course={activeCourse}
+                columns={scorecardColumns}
+                holeCount={totalHoles}
+                points={isScramble ? teamScores : playerScores}
+                currentHole={currentHole}
+                showRunningTotals
+                onHoleClick={(hole) => {
+                  handleNavigateHole(hole);
+                  setShowScorecard(false);
+                }}
+              />
+            </CardContent>
+          </Card>
+        )}
+
         {/* Hole Navigation */}
         <Card className="mb-4">
           <CardContent className="py-3">
@@ -315,56 +605,287 @@ const PlayRound = () => {
           </CardContent>
         </Card>
 
-        {/* Who Won This Hole */}
-        <Card className="mb-4">
-          <CardHeader className="pb-3">
-            <CardTitle className="text-lg flex items-center gap-2">
-              <Trophy className="w-5 h-5 text-primary" />
-              Who won this hole?
-            </CardTitle>
-            <CardDescription>Select all winners (ties allowed)</CardDescription>
-          </CardHeader>
-          <CardContent>
-            <div className="space-y-2">
-              {seasonPlayers.map((player) => (
-                <div
-                  key={player.id}
-                  className={`flex items-center justify-between p-3 rounded-lg border cursor-pointer transition-colors ${
-                    selectedWinners.includes(player.id) 
-                      ? 'bg-primary/10 border-primary' 
-                      : 'hover:bg-muted/50'
-                  }`}
-                  onClick={() => handleToggleWinner(player.id)}
-                >
-                  <div className="flex items-center gap-3">
-                    <Checkbox
-                      checked={selectedWinners.includes(player.id)}
-                      onCheckedChange={() => handleToggleWinner(player.id)}
-                    />
-                    <Avatar className="h-8 w-8">
-                      <AvatarImage src={player.avatar} alt={player.name} />
-                      <AvatarFallback className="bg-primary/10 text-primary text-xs">
-                        {getInitials(player.name)}
-                      </AvatarFallback>
-                    </Avatar>
-                    <div>
-                      <span className="font-medium">{player.name}</span>
-                      {leader === player.id && (
-                        <Badge variant="secondary" className="ml-2 text-xs">
-                          Leading
-                        </Badge>
-                      )}
-                    </div>
+        {/* Match Play */}
+        {matchStatus && (
+          <Card className={`mb-4 ${matchStatus.closedOut ? 'border-primary bg-primary/5' : ''}`}>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-lg flex items-center gap-2">
+                <Swords className="w-5 h-5 text-primary" />
+                Match Play
+              </CardTitle>
+              <CardDescription>{matchSides.map(side => side.label).join(' vs ')}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <p className="text-xl font-bold">{formatMatchStatus(matchStatus, matchSides)}</p>
+              {matchStatus.closedOut && (
+                <Button className="w-full" onClick={handleFinishRound}>
+                  <Flag className="w-4 h-4 mr-2" />
+                  Finish Match
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Nassau */}
+        {nassauBets && (
+          <Card className="mb-4">
+            <CardHeader className="pb-3">
+              <CardTitle className="text-lg flex items-center gap-2">
+                <Swords className="w-5 h-5 text-primary" />
+                Nassau
+              </CardTitle>
+              <CardDescription>{matchSides.map(side => side.label).join(' vs ')}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {nassauBets.map(bet => (
+                <div key={`${bet.label}-${bet.startHole}`} className="flex items-center justify-between gap-2">
+                  <div className={bet.press ? 'pl-3' : ''}>
+                    <span className={bet.press ? 'text-sm' : 'font-medium'}>{bet.label}</span>
+                    <p className="text-xs text-muted-foreground">Holes {bet.startHole}–{bet.endHole}</p>
                   </div>
-                  <div className="text-right">
-                    <span className="text-lg font-bold">{playerScores[player.id] || 0}</span>
-                    <p className="text-xs text-muted-foreground">points</p>
+                  <span className="text-sm text-right">{formatMatchStatus(bet.status, matchSides)}</span>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Skins */}
+        {skinsResult && (
+          <Card className="mb-4">
+            <CardHeader className="pb-3">
+              <CardTitle className="text-lg flex items-center gap-2">
+                <Coins className="w-5 h-5 text-amber-500" />
+                Skins
+              </CardTitle>
+              <CardDescription>
+                Hole {currentHole} is worth {currentSkinValue} skin{currentSkinValue !== 1 ? 's' : ''}
+                {' '}• only an outright winner takes them
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <SkinsSummary sides={roundTeams ?? roundPlayers} result={skinsResult} />
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Wolf */}
+        {isWolf && (
+          <Card className="mb-4">
+            <CardHeader className="pb-3">
+              <CardTitle className="text-lg flex items-center gap-2">
+                <Dog className="w-5 h-5 text-primary" />
+                Wolf
+              </CardTitle>
+              <CardDescription>
+                {roundPlayers.find(p => p.id === currentWolfId)?.name ?? 'Unknown'} is the wolf • pick a partner or go alone
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="grid grid-cols-2 gap-2">
+                {roundPlayers.filter(p => p.id !== currentWolfId).map(player => (
+                  <Button
+                    key={player.id}
+                    variant={wolfChoice?.partnerId === player.id ? 'default' : 'outline'}
+                    onClick={() => handleSelectWolfPartner(player.id)}
+                  >
+                    {player.name}
+                  </Button>
+                ))}
+                <Button
+                  className="col-span-2"
+                  variant={wolfChoice && !wolfChoice.partnerId ? 'default' : 'outline'}
+                  onClick={() => handleSelectWolfPartner(undefined)}
+                >
+                  Lone Wolf
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {!wolfChoice
+                  ? 'The wolf picks before the hole result is entered'
+                  : wolfChoice.partnerId
+                    ? `Wolf and partner win ${WOLF_POINTS.partnersWin} each, or the others win ${WOLF_POINTS.partnersLose} each`
+                    : `The lone wolf wins ${WOLF_POINTS.loneWolfWins}, or the others win ${WOLF_POINTS.loneWolfLoses} each`}
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Team Standings */}
+        {roundTeams && entryMode === 'strokes' && (
+          <Card className="mb-4">
+            <CardHeader className="pb-3">
+              <CardTitle className="text-lg flex items-center gap-2">
+                <Users className="w-5 h-5 text-primary" />
+                Team Standings
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {[...roundTeams].sort((a, b) => (teamScores[b.id] || 0) - (teamScores[a.id] || 0)).map(team => (
+                <div key={team.id} className="flex items-center justify-between">
+                  <div>
+                    <span className="font-medium">{team.name}</span>
+                    <p className="text-xs text-muted-foreground">
+                      {roundPlayers.filter(p => team.playerIds.includes(p.id)).map(p => p.name).join(', ')}
+                    </p>
                   </div>
+                  <span className="font-bold">{formatPoints(teamScores[team.id] || 0)} pts</span>
                 </div>
               ))}
-            </div>
-          </CardContent>
-        </Card>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Entry Mode */}
+        {!isStableford && (
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            className="mb-4"
+            value={entryMode}
+            onValueChange={(v) => v && setEntryMode(v as EntryMode)}
+          >
+            <ToggleGroupItem value="winners" className="flex-1">
+              <Trophy className="w-4 h-4 mr-1" />
+              Hole Winners
+            </ToggleGroupItem>
+            <ToggleGroupItem value="strokes" className="flex-1">
+              <Hash className="w-4 h-4 mr-1" />
+              Strokes
+            </ToggleGroupItem>
+          </ToggleGroup>
+        )}
+
+        {entryMode === 'strokes' ? (
+          <Card className="mb-4">
+            <CardHeader className="pb-3">
+              <CardTitle className="text-lg flex items-center gap-2">
+                <Hash className="w-5 h-5 text-primary" />
+                Strokes on this hole
+              </CardTitle>
+              <CardDescription>
+                {isStableford
+                  ? `${STABLEFORD_TABLE_LABELS[activeRound.stablefordTable ?? 'standard']} Stableford points against par`
+                  : <>
+                      Lowest {activeRound.netScoring && !isScramble ? 'net ' : ''}
+                      {roundTeams ? (isScramble ? 'team score' : 'team best ball') : 'score'} wins the hole (ties allowed)
+                    </>}
+              </CardDescription>
+              {isStableford && !currentCourseHole && (
+                <div className="flex items-center gap-2 pt-2">
+                  <Label>Par</Label>
+                  <Select value={currentPar?.toString()} onValueChange={(v) => setHolePar(parseInt(v))}>
+                    <SelectTrigger className="w-20 h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PAR_OPTIONS.map(par => (
+                        <SelectItem key={par} value={par.toString()}>{par}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </CardHeader>
+            <CardContent>
+              <StrokeEntry
+                players={isScramble ? roundTeams : roundPlayers}
+                strokes={holeStrokes}
+                winnerIds={roundTeams && !isScramble ? getTeamMemberIds(roundTeams, strokeWinners) : strokeWinners}
+                grossScores={grossScores}
+                par={currentPar}
+                points={stablefordTotals ?? (isWolf ? playerScores : undefined)}
+                strokesReceived={holeStrokesReceived}
+                netScores={netScores}
+                onStrokesChange={handleStrokesChange}
+              />
+            </CardContent>
+          </Card>
+        ) : (
+          <Card className="mb-4">
+            <CardHeader className="pb-3">
+              <CardTitle className="text-lg flex items-center gap-2">
+                <Trophy className="w-5 h-5 text-primary" />
+                Who won this hole?
+              </CardTitle>
+              <CardDescription>Select all winning {roundTeams ? 'teams' : 'players'} (ties allowed)</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-2">
+                {roundTeams?.map(team => (
+                  <div
+                    key={team.id}
+                    className={`flex items-center justify-between p-3 rounded-lg border cursor-pointer transition-colors ${
+                      selectedWinners.includes(team.id)
+                        ? 'bg-primary/10 border-primary'
+                        : 'hover:bg-muted/50'
+                    }`}
+                    onClick={() => handleToggleWinner(team.id)}
+                  >
+                    <div className="flex items-center gap-3">
+                      <Checkbox
+                        checked={selectedWinners.includes(team.id)}
+                        onCheckedChange={() => handleToggleWinner(team.id)}
+                      />
+                      <div>
+                        <span className="font-medium">{team.name}</span>
+                        {leader === team.id && (
+                          <Badge variant="secondary" className="ml-2 text-xs">
+                            Leading
+                          </Badge>
+                        )}
+                        <p className="text-xs text-muted-foreground">
+                          {roundPlayers.filter(p => team.playerIds.includes(p.id)).map(p => p.name).join(', ')}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="text-right">
+                      <span className="text-lg font-bold">{formatPoints(teamScores[team.id] || 0)}</span>
+                      <p className="text-xs text-muted-foreground">points</p>
+                    </div>
+                  </div>
+                ))}
+                {!roundTeams && roundPlayers.map((player) => (
+                  <div
+                    key={player.id}
+                    className={`flex items-center justify-between p-3 rounded-lg border cursor-pointer transition-colors ${
+                      selectedWinners.includes(player.id) 
+                        ? 'bg-primary/10 border-primary' 
+                        : 'hover:bg-muted/50'
+                    }`}
+                    onClick={() => handleToggleWinner(player.id)}
+                  >
+                    <div className="flex items-center gap-3">
+                      <Checkbox
+                        checked={selectedWinners.includes(player.id)}
+                        onCheckedChange={() => handleToggleWinner(player.id)}
+                      />
+                      <Avatar className="h-8 w-8">
+                        <AvatarImage src={player.avatar} alt={player.name} />
+                        <AvatarFallback className="bg-primary/10 text-primary text-xs">
+                          {getInitials(player.name)}
+                        </AvatarFallback>
+                      </Avatar>
+                      <div>
+                        <span className="font-medium">{player.name}</span>
+                        {leader === player.id && (
+                          <Badge variant="secondary" className="ml-2 text-xs">
+                            Leading
+                          </Badge>
+                        )}
+                      </div>
+                    </div>
+                    <div className="text-right">
+                      <span className="text-lg font-bold">{formatPoints(playerScores[player.id] || 0)}</span>
+                      <p className="text-xs text-muted-foreground">points</p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
 
         {/* Hole in One */}
         <Card className="mb-6">
@@ -377,7 +898,7 @@ const PlayRound = () => {
           </CardHeader>
           <CardContent>
             <div className="space-y-3">
-              {seasonPlayers.map((player) => (
+              {roundPlayers.map((player) => (
                 <div key={player.id} className="flex items-center justify-between">
                   <div className="flex items-center gap-3">
                     <Avatar className="h-6 w-6">
@@ -406,10 +927,7 @@ const PlayRound = () => {
             <Button 
               variant="secondary" 
               className="flex-1 h-12"
-              onClick={() => {
-                handleSaveHole();
-                handleNavigateHole(currentHole + 1);
-              }}
+              onClick={handleSaveAndNext}
             >
               Save & Next
             </Button>
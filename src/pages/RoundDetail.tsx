@@ -0,0 +1,224 @@
+import { useMemo, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useGolf } from '@/contexts/GolfContext';
+import { useToast } from '@/hooks/use-toast';
+import { Scorecard } from '@/components/round/Scorecard';
+import { HoleEditDialog } from '@/components/round/HoleEditDialog';
+import { ArrowLeft, Check, History, MapPin, Pencil, Play, Trophy } from 'lucide-react';
+import { format } from 'date-fns';
+import { HoleResult } from '@/types/golf';
+import { getRoundPoints, getRoundRules, getRoundWinners, getSidePoints } from '@/lib/scoring';
+import { describeHoleChanges, GAME_FORMAT_LABELS, getRoundHoleCount, isRoundInProgress, isScrambleRound } from '@/lib/rounds';
+
+const RoundDetail = () => {
+  const navigate = useNavigate();
+  const { roundId } = useParams();
+  const { toast } = useToast();
+  const { players, seasons, courses, rounds, correctRoundHole } = useGolf();
+  const [isEditing, setIsEditing] = useState(false);
+  const [editingHole, setEditingHole] = useState<number | null>(null);
+
+  const round = rounds.find(r => r.id === roundId);
+  const course = round ? courses.find(c => c.id === round.courseId) : undefined;
+  const season = round ? seasons.find(s => s.id === round.seasonId) : undefined;
+
+  const roundPlayers = useMemo(() => {
+    return round ? players.filter(p => round.playerIds.includes(p.id)) : [];
+  }, [players, round]);
+
+  // Scramble teams share one score, so their scorecard has a column per team
+  const isScramble = !!round && isScrambleRound(round);
+  const columns = isScramble ? round.teams : roundPlayers;
+
+  // Points and winners follow the current hole results, so corrections show straight away
+  const points = useMemo(() => {
+    if (!round) return {};
+    const rules = getRoundRules(round, seasons);
+    return isScramble ? getSidePoints(round, rules) : getRoundPoints(round, rules);
+  }, [round, seasons, isScramble]);
+
+  const winnerNames = useMemo(() => {
+    if (!round) return [];
+    return getRoundWinners(round, getRoundRules(round, seasons))
+      .map(id => players.find(p => p.id === id)?.name ?? 'Unknown');
+  }, [round, seasons, players]);
+
+  const getName = (id: string) =>
+    players.find(p => p.id === id)?.name ?? round?.teams?.find(team => team.id === id)?.name ?? 'Unknown';
+
+  const handleSaveCorrection = (result: HoleResult, note: string) => {
+    if (!round) return;
+    const before = round.holeResults.find(h => h.holeNumber === result.holeNumber);
+    if (describeHoleChanges(before, result, getName).length === 0) {
+      setEditingHole(null);
+      return;
+    }
+    correctRoundHole(round.id, result, note);
+    setEditingHole(null);
+    toast({
+      title: `Hole ${result.holeNumber} corrected`,
+      description: "Points and statistics have been updated.",
+    });
+  };
+
+  if (!round) {
+    return (
+      <div className="min-h-screen bg-background">
+        <div className="container max-w-md mx-auto px-4 py-6">
+          <div className="flex items-center gap-4 mb-6">
+            <Button variant="ghost" size="icon" onClick={() => navigate(-1)}>
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+            <h1 className="text-2xl font-bold">Round</h1>
+          </div>
+          <Card className="border-dashed">
+            <CardContent className="py-12 text-center">
+              <p className="text-muted-foreground">Round not found</p>
+              <Button variant="link" onClick={() => navigate('/')}>
+                Back to home
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  const corrections = [...(round.corrections ?? [])].reverse();
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container max-w-md mx-auto px-4 py-6">
+        {/* Header */}
+        <div className="flex items-center gap-4 mb-6">
+          <Button variant="ghost" size="icon" onClick={() => navigate(-1)}>
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <div className="flex-1">
+            <h1 className="text-xl font-bold flex items-center gap-2">
+              <MapPin className="w-5 h-5 text-primary" />
+              {course?.name ?? 'Unknown Course'}
+            </h1>
+            <p className="text-sm text-muted-foreground">
+              {format(new Date(round.startedAt), 'MMM d, yyyy • h:mm a')}
+              {season && ` • ${season.name}`}
+            </p>
+          </div>
+          {round.abandonedAt ? (
+            <Badge variant="outline" className="text-muted-foreground">Abandoned</Badge>
+          ) : round.completedAt ? (
+            <Badge variant="secondary" className="bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-300">
+              Completed
+            </Badge>
+          ) : (
+            <Badge variant="outline">In Progress</Badge>
+          )}
+        </div>
+
+        {/* Summary */}
+        <Card className="mb-4">
+          <CardContent className="py-4 space-y-1">
+            <p className="text-sm text-muted-foreground">
+              {GAME_FORMAT_LABELS[round.format ?? 'holes']}
+              {round.netScoring && ' • Net'}
+              {round.teams && ` • ${round.teams.map(team => team.name).join(' vs ')}`}
+            </p>
+            {winnerNames.length > 0 && !round.abandonedAt && (
+              <p className="flex items-center gap-2 font-medium">
+                <Trophy className="w-4 h-4 text-amber-500" />
+                {winnerNames.join(', ')}
+              </p>
+            )}
+            {round.abandonedAt && (
+              <p className="text-sm text-muted-foreground">
+                Abandoned{round.abandonReason && `: ${round.abandonReason}`} • doesn't count towards standings
+              </p>
+            )}
+            {round.matchResult && (
+              <p className="text-sm">
+                Match: {round.matchResult.winnerId ? `${getName(round.matchResult.winnerId)} ${round.matchResult.result}` : 'Halved'}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Scorecard */}
+        <Card className="mb-4">
+          <CardHeader className="pb-3">
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-lg">Scorecard</CardTitle>
+              {round.completedAt ? (
+                <Button variant={isEditing ? 'default' : 'outline'} size="sm" onClick={() => setIsEditing(!isEditing)}>
+                  {isEditing ? <Check className="w-4 h-4 mr-1" /> : <Pencil className="w-4 h-4 mr-1" />}
+                  {isEditing ? 'Done' : 'Edit'}
+                </Button>
+              ) : isRoundInProgress(round) && (
+                <Button variant="outline" size="sm" onClick={() => navigate('/play')}>
+                  <Play className="w-4 h-4 mr-1" />
+                  Continue
+                </Button>
+              )}
+            </div>
+            {isEditing && <CardDescription>Tap a hole to correct it</CardDescription>}
+          </CardHeader>
+          <CardContent>
+            <Scorecard
+              round={round}
+              course={course}
+              columns={columns}
+              holeCount={getRoundHoleCount(round, course)}
+              points={points}
+              onHoleClick={isEditing ? setEditingHole : undefined}
+            />
+          </CardContent>
+        </Card>
+
+        {/* Audit Trail */}
+        {corrections.length > 0 && (
+          <Card className="mb-4">
+            <CardHeader className="pb-3">
+              <CardTitle className="text-lg flex items-center gap-2">
+                <History className="w-5 h-5 text-primary" />
+                Corrections
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {corrections.map(correction => (
+                <div key={correction.id} className="text-sm space-y-0.5">
+                  <p className="font-medium">
+                    Hole {correction.holeNumber}
+                    <span className="text-xs text-muted-foreground font-normal">
+                      {' '}• {format(new Date(correction.correctedAt), 'MMM d, yyyy • h:mm a')}
+                    </span>
+                  </p>
+                  {describeHoleChanges(correction.before, correction.after, getName).map(change => (
+                    <p key={change} className="text-muted-foreground">{change}</p>
+                  ))}
+                  {correction.note && <p className="italic">"{correction.note}"</p>}
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {editingHole !== null && (
+          <HoleEditDialog
+            key={editingHole}
+            round={round}
+            course={course}
+            players={roundPlayers}
+            holeNumber={editingHole}
+            open
+            onOpenChange={(open) => !open && setEditingHole(null)}
+            onSave={handleSaveCorrection}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RoundDetail;
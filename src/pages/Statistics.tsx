@@ -34,9 +34,17 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { useGolf } from '@/contexts/GolfContext';
-import { ArrowLeft, Trophy, User, MapPin, Calendar, Star, Download, FileSpreadsheet, FileText, ChevronRight } from 'lucide-react';
+import { ScoreBasis } from '@/types/golf';
+import { ArrowLeft, Trophy, User, MapPin, Calendar, Star, Download, FileSpreadsheet, FileText, ChevronRight, Hash, Swords, Dog } from 'lucide-react';
 import { format } from 'date-fns';
 import * as XLSX from 'xlsx';
+import { getStrokePlayStats } from '@/lib/strokes';
+import { formatHandicap, getHandicapIndexes } from '@/lib/handicap';
+import { formatPoints } from '@/lib/scoring';
+import { getCourseRankings, getNetRounds, getPlayerStatistics, getSeasonSummaries } from '@/lib/statistics';
+import { getResultsByPar, getTotalPar } from '@/lib/courseHoles';
+import { getMatchRecords } from '@/lib/matchPlay';
+import { getLoneWolfRate, getWolfRecords } from '@/lib/wolf';
 
 const Statistics = () => {
   const navigate = useNavigate();
@@ -44,188 +52,91 @@ const Statistics = () => {
   const [selectedSeasonId, setSelectedSeasonId] = useState<string>('all');
   const [selectedPlayerId, setSelectedPlayerId] = useState<string | null>(null);
   const [selectedCourseId, setSelectedCourseId] = useState<string | null>(null);
+  const [scoreBasis, setScoreBasis] = useState<ScoreBasis>('gross');
+
+  // Net leaderboards score every round again off the handicaps it started with
+  const scoredRounds = useMemo(() => {
+    return scoreBasis === 'net' ? getNetRounds(rounds, courses) : rounds;
+  }, [rounds, courses, scoreBasis]);
 
   // Filter data by selected season
   const filteredRounds = useMemo(() => {
-    if (selectedSeasonId === 'all') return rounds;
-    return rounds.filter(r => r.seasonId === selectedSeasonId);
-  }, [rounds, selectedSeasonId]);
+    if (selectedSeasonId === 'all') return scoredRounds;
+    return scoredRounds.filter(r => r.seasonId === selectedSeasonId);
+  }, [scoredRounds, selectedSeasonId]);
 
   // Calculate player statistics (HIGHEST SCORE WINS)
   const playerStats = useMemo(() => {
-    const stats: Record<string, {
-      playerId: string;
-      name: string;
-      avatar?: string;
-      totalWins: number;
-      holesWon: number;
-      holeInOnes: number;
-      roundsPlayed: number;
-      courseHistory: Array<{
-        courseId: string;
-        courseName: string;
-        score: number;
-        date: string;
-        holeInOnes: number;
-      }>;
-    }> = {};
-
-    players.forEach(player => {
-      stats[player.id] = {
-        playerId: player.id,
-        name: player.name,
-        avatar: player.avatar,
-        totalWins: 0,
-        holesWon: 0,
-        holeInOnes: 0,
-        roundsPlayed: 0,
-        courseHistory: [],
+    return getPlayerStatistics(players.map(p => p.id), filteredRounds, seasons).map(stats => {
+      const player = players.find(p => p.id === stats.playerId);
+      return {
+        ...stats,
+        name: player?.name ?? 'Unknown',
+        avatar: player?.avatar,
+        courseHistory: stats.history.map(entry => ({
+          ...entry,
+          courseName: courses.find(c => c.id === entry.courseId)?.name || 'Unknown',
+        })),
       };
     });
-
-    filteredRounds.forEach(round => {
-      const course = courses.find(c => c.id === round.courseId);
-      
-      // Count rounds played and build history
-      round.playerIds.forEach(playerId => {
-        if (stats[playerId]) {
-          stats[playerId].roundsPlayed++;
-        }
-      });
-
-      // Calculate score per player for this round
-      const roundScores: Record<string, number> = {};
-      const roundHoleInOnes: Record<string, number> = {};
-      
-      round.holeResults.forEach(hole => {
-        hole.winnerIds.forEach(winnerId => {
-          if (stats[winnerId]) {
-            stats[winnerId].holesWon++;
-            roundScores[winnerId] = (roundScores[winnerId] || 0) + 1;
-          }
-        });
-        hole.holeInOnePlayerIds.forEach(playerId => {
-          if (stats[playerId]) {
-            stats[playerId].holeInOnes++;
-            roundHoleInOnes[playerId] = (roundHoleInOnes[playerId] || 0) + 1;
-          }
-        });
-      });
-
-      // Add to course history
-      round.playerIds.forEach(playerId => {
-        if (stats[playerId] && round.completedAt) {
-          stats[playerId].courseHistory.push({
-            courseId: round.courseId,
-            courseName: course?.name || 'Unknown',
-            score: roundScores[playerId] || 0,
-            date: round.startedAt,
-            holeInOnes: roundHoleInOnes[playerId] || 0,
-          });
-        }
-      });
-
-      // Determine round winner (highest holes won in round)
-      if (round.completedAt) {
-        const maxScore = Math.max(...Object.values(roundScores), 0);
-        if (maxScore > 0) {
-          Object.entries(roundScores).forEach(([playerId, score]) => {
-            if (score === maxScore && stats[playerId]) {
-              stats[playerId].totalWins++;
-            }
-          });
-        }
-      }
-    });
-
-    // Sort by holesWon (highest first - the winner!)
-    return Object.values(stats).sort((a, b) => b.holesWon - a.holesWon);
-  }, [players, filteredRounds, courses]);
+  }, [players, filteredRounds, seasons, courses]);
 
   // Course statistics with player rankings
   const courseStats = useMemo(() => {
-    return courses.map(course => {
-      const courseRounds = filteredRounds.filter(r => r.courseId === course.id && r.completedAt);
-      
-      // Build rankings: best scores per player
-      const playerBestScores: Record<string, { score: number; date: string }> = {};
-      
-      courseRounds.forEach(round => {
-        const roundScores: Record<string, number> = {};
-        round.holeResults.forEach(hole => {
-          hole.winnerIds.forEach(winnerId => {
-            roundScores[winnerId] = (roundScores[winnerId] || 0) + 1;
-          });
-        });
-        
-        Object.entries(roundScores).forEach(([playerId, score]) => {
-          if (!playerBestScores[playerId] || score > playerBestScores[playerId].score) {
-            playerBestScores[playerId] = { score, date: round.startedAt };
-          }
-        });
-      });
-
-      const rankings = Object.entries(playerBestScores)
-        .map(([playerId, data]) => ({
-          player: players.find(p => p.id === playerId),
-          score: data.score,
-          date: data.date,
-        }))
-        .filter(r => r.player)
-        .sort((a, b) => b.score - a.score);
-
-      return {
-        course,
-        roundsPlayed: courseRounds.length,
-        rankings,
-      };
-    }).sort((a, b) => b.roundsPlayed - a.roundsPlayed);
-  }, [courses, filteredRounds, players]);
+    return getCourseRankings(courses, filteredRounds, seasons).map(({ rankings, ...stats }) => ({
+      ...stats,
+      rankings: rankings
+        .map(ranking => ({ ...ranking, player: players.find(p => p.id === ranking.playerId) }))
+        .filter(r => r.player),
+    }));
+  }, [courses, filteredRounds, seasons, players]);
 
   // Season statistics with leaderboard
   const seasonStats = useMemo(() => {
-    return seasons.map(season => {
-      const seasonRounds = rounds.filter(r => r.seasonId === season.id);
-      const completedRounds = seasonRounds.filter(r => r.completedAt);
-      const seasonPlayers = players.filter(p => season.playerIds.includes(p.id));
-
-      // Calculate leaderboard with hole-in-ones
-      const leaderboard: Record<string, { score: number; holeInOnes: number }> = {};
-      
-      seasonRounds.forEach(round => {
-        round.holeResults.forEach(hole => {
-          hole.winnerIds.forEach(winnerId => {
-            if (!leaderboard[winnerId]) {
-              leaderboard[winnerId] = { score: 0, holeInOnes: 0 };
-            }
-            leaderboard[winnerId].score++;
-          });
-          hole.holeInOnePlayerIds.forEach(playerId => {
-            if (!leaderboard[playerId]) {
-              leaderboard[playerId] = { score: 0, holeInOnes: 0 };
-            }
-            leaderboard[playerId].holeInOnes++;
-          });
-        });
-      });
-
-      const sortedLeaderboard = Object.entries(leaderboard)
-        .map(([playerId, data]) => ({
-          player: players.find(p => p.id === playerId),
-          score: data.score,
-          holeInOnes: data.holeInOnes,
+    return getSeasonSummaries(seasons, scoredRounds).map(({ standings, ...summary }) => ({
+      ...summary,
+      leaderboard: standings
+        .map(standing => ({
+          player: players.find(p => p.id === standing.playerId),
+          score: standing.points,
+          holeInOnes: standing.holeInOnes,
         }))
-        .filter(entry => entry.player)
-        .sort((a, b) => b.score - a.score);
+        .filter(entry => entry.player),
+    }));
+  }, [seasons, scoredRounds, players]);
+
+  // Gross and net stroke-play statistics (lowest wins)
+  const strokeStats = useMemo(() => {
+    return getStrokePlayStats(filteredRounds, players.map(p => p.id), courses, scoreBasis).map(stats => ({
+      ...stats,
+      player: players.find(p => p.id === stats.playerId),
+      bestCourse: courses.find(c => c.id === stats.bestRound?.courseId),
+    }));
+  }, [filteredRounds, players, courses, scoreBasis]);
 
-      return {
-        season,
-        roundsPlayed: completedRounds.length,
-        playerCount: seasonPlayers.length,
-        leaderboard: sortedLeaderboard,
-      };
-    });
-  }, [seasons, rounds, players]);
+  // Label leaderboard points as Stableford when the selected season plays it
+  const isStablefordView = !!seasons.find(s => s.id === selectedSeasonId)?.rules?.stableford;
+
+  // Match play records, kept apart from the holes-won leaderboard
+  const matchRecords = useMemo(() => {
+    return getMatchRecords(filteredRounds, players.map(p => p.id)).map(record => ({
+      ...record,
+      player: players.find(p => p.id === record.playerId),
+    }));
+  }, [filteredRounds, players]);
+
+  // Wolf decisions, with how often each player's lone-wolf holes came off
+  const wolfRecords = useMemo(() => {
+    return getWolfRecords(filteredRounds, players.map(p => p.id)).map(record => ({
+      ...record,
+      player: players.find(p => p.id === record.playerId),
+    }));
+  }, [filteredRounds, players]);
+
+  // Handicap indexes always use every round, regardless of the season filter
+  const handicapIndexes = useMemo(() => {
+    return getHandicapIndexes(rounds, courses, players.map(p => p.id));
+  }, [rounds, courses, players]);
 
   const getInitials = (name: string) => {
     return name.split(' ').map(n => n[0]).join('').toUpperCase().slice(0, 2);
@@ -234,6 +145,11 @@ const Statistics = () => {
   const selectedPlayer = playerStats.find(p => p.playerId === selectedPlayerId);
   const selectedCourse = courseStats.find(c => c.course.id === selectedCourseId);
 
+  // Hole results by par for the selected player (courses with a hole table only)
+  const selectedPlayerParStats = useMemo(() => {
+    return selectedPlayerId ? getResultsByPar(filteredRounds, courses, selectedPlayerId) : [];
+  }, [filteredRounds, courses, selectedPlayerId]);
+
   // Sanitize CSV values to prevent formula injection attacks
   // Prefixes values starting with =, +, -, @, or tab with a single quote
   const sanitizeCSVValue = (value: string | number): string => {
@@ -253,7 +169,8 @@ const Statistics = () => {
     return playerStats.map((stat, index) => ({
       Rank: index + 1,
       Player: sanitizeCSVValue(stat.name),
-      'Holes Won': stat.holesWon,
+      Points: stat.points,
+      'Holes Won': stat.totalHolesWon,
       'Rounds Won': stat.totalWins,
       'Hole-in-Ones': stat.holeInOnes,
       'Rounds Played': stat.roundsPlayed,
@@ -261,11 +178,12 @@ const Statistics = () => {
   };
 
   const handleExportCSV = () => {
-    const headers = ['Rank', 'Player', 'Holes Won', 'Rounds Won', 'Hole-in-Ones', 'Rounds Played'];
+    const headers = ['Rank', 'Player', 'Points', 'Holes Won', 'Rounds Won', 'Hole-in-Ones', 'Rounds Played'];
     const rows = playerStats.map((stat, index) => [
       index + 1,
       sanitizeCSVValue(stat.name),
-      stat.holesWon,
+      stat.points,
+      stat.totalHolesWon,
       stat.totalWins,
       stat.holeInOnes,
       stat.roundsPlayed,
@@ -356,10 +274,10 @@ const Statistics = () => {
           </DropdownMenu>
         </div>
 
-        {/* Season Filter */}
-        <div className="mb-6">
+        {/* Season and Gross/Net Filters */}
+        <div className="mb-6 flex gap-2">
           <Select value={selectedSeasonId} onValueChange={setSelectedSeasonId}>
-            <SelectTrigger>
+            <SelectTrigger className="flex-1">
               <SelectValue placeholder="Filter by season" />
             </SelectTrigger>
             <SelectContent>
@@ -371,6 +289,15 @@ const Statistics = () => {
               ))}
             </SelectContent>
           </Select>
+          <Select value={scoreBasis} onValueChange={value => setScoreBasis(value as ScoreBasis)}>
+            <SelectTrigger className="w-24" aria-label="Gross or net">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="gross">Gross</SelectItem>
+              <SelectItem value="net">Net</SelectItem>
+            </SelectContent>
+          </Select>
         </div>
 
         {/* Tabs */}
@@ -388,6 +315,18 @@ const Statistics = () => {
               <Calendar className="w-4 h-4 mr-1" />
               Seasons
             </TabsTrigger>
+            <TabsTrigger value="strokes" className="flex-1">
+              <Hash className="w-4 h-4 mr-1" />
+              Strokes
+            </TabsTrigger>
+            <TabsTrigger value="matches" className="flex-1">
+              <Swords className="w-4 h-4 mr-1" />
+              Match
+            </TabsTrigger>
+            <TabsTrigger value="wolf" className="flex-1">
+              <Dog className="w-4 h-4 mr-1" />
+              Wolf
+            </TabsTrigger>
           </TabsList>
 
           {/* Players Tab */}
@@ -404,13 +343,13 @@ const Statistics = () => {
                 {playerStats.map((stat, index) => (
                   <Card 
                     key={stat.playerId} 
-                    className={`cursor-pointer hover:border-primary/50 transition-colors ${index === 0 && stat.holesWon > 0 ? 'border-primary bg-primary/5' : ''}`}
+                    className={`cursor-pointer hover:border-primary/50 transition-colors ${index === 0 && stat.points > 0 ? 'border-primary bg-primary/5' : ''}`}
                     onClick={() => setSelectedPlayerId(stat.playerId)}
                   >
                     <CardContent className="py-4">
                       <div className="flex items-center gap-4">
                         <div className="flex items-center justify-center w-8 h-8 rounded-full bg-muted text-sm font-bold">
-                          {index === 0 && stat.holesWon > 0 ? (
+                          {index === 0 && stat.points > 0 ? (
                             <Trophy className="w-4 h-4 text-primary" />
                           ) : (
                             index + 1
@@ -426,12 +365,17 @@ const Statistics = () => {
                           <div className="font-medium">{stat.name}</div>
                           <div className="text-xs text-muted-foreground">
                             {stat.roundsPlayed} round{stat.roundsPlayed !== 1 ? 's' : ''} played
+                            {handicapIndexes[stat.playerId] !== undefined && (
+                              ` • HCP ${formatHandicap(handicapIndexes[stat.playerId])}`
+                            )}
                           </div>
                         </div>
                         <div className="flex items-center gap-2">
                           <div className="text-right">
-                            <div className="text-xl font-bold">{stat.holesWon}</div>
-                            <div className="text-xs text-muted-foreground">holes won</div>
+                            <div className="text-xl font-bold">{formatPoints(stat.points)}</div>
+                            <div className="text-xs text-muted-foreground">
+                              {isStablefordView ? 'Stableford pts' : 'points'}
+                            </div>
                           </div>
                           <ChevronRight className="w-4 h-4 text-muted-foreground" />
                         </div>
@@ -534,7 +478,9 @@ const Statistics = () => {
                             <TableRow>
                               <TableHead className="w-12">#</TableHead>
                               <TableHead>Player</TableHead>
-                              <TableHead className="text-right">Score</TableHead>
+                              <TableHead className="text-right">
+                                {season.rules?.stableford ? 'Stableford' : 'Score'}
+                              </TableHead>
                               <TableHead className="text-right">Aces</TableHead>
                             </TableRow>
                           </TableHeader>
@@ -545,7 +491,7 @@ const Statistics = () => {
                                   {index === 0 ? <Trophy className="w-4 h-4 text-amber-500" /> : index + 1}
                                 </TableCell>
                                 <TableCell>{entry.player?.name}</TableCell>
-                                <TableCell className="text-right font-bold">{entry.score}</TableCell>
+                                <TableCell className="text-right font-bold">{formatPoints(entry.score)}</TableCell>
                                 <TableCell className="text-right">
                                   {entry.holeInOnes > 0 && (
                                     <span className="flex items-center justify-end gap-1">
@@ -567,6 +513,150 @@ const Statistics = () => {
               </div>
             )}
           </TabsContent>
+
+          {/* Strokes Tab */}
+          <TabsContent value="strokes">
+            {strokeStats.length === 0 ? (
+              <Card className="border-dashed">
+                <CardContent className="py-12 text-center">
+                  <p className="text-muted-foreground">No stroke play rounds yet</p>
+                  <p className="text-sm text-muted-foreground">Enter strokes for every hole of a round to see gross scores</p>
+                </CardContent>
+              </Card>
+            ) : (
+              <Card>
+                <CardContent className="pt-4">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-12">#</TableHead>
+                        <TableHead>Player</TableHead>
+                        <TableHead className="text-right">Rounds</TableHead>
+                        <TableHead className="text-right">Avg</TableHead>
+                        <TableHead className="text-right">Net Avg</TableHead>
+                        <TableHead className="text-right">Per Hole</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {strokeStats.map((entry, index) => (
+                        <TableRow key={entry.playerId}>
+                          <TableCell className="font-medium">
+                            {index === 0 ? <Trophy className="w-4 h-4 text-amber-500" /> : index + 1}
+                          </TableCell>
+                          <TableCell>{entry.player?.name}</TableCell>
+                          <TableCell className="text-right">{entry.roundsPlayed}</TableCell>
+                          <TableCell className={`text-right ${scoreBasis === 'gross' ? 'font-bold' : ''}`}>{entry.averagePerRound.toFixed(1)}</TableCell>
+                          <TableCell className={`text-right ${scoreBasis === 'net' ? 'font-bold' : ''}`}>{entry.netAveragePerRound.toFixed(1)}</TableCell>
+                          <TableCell className="text-right">{entry.averagePerHole.toFixed(2)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+
+                  <h4 className="text-sm font-medium mt-6 mb-2">Best Rounds</h4>
+                  <div className="space-y-2">
+                    {strokeStats.map(entry => entry.bestRound && (
+                      <div key={entry.playerId} className="flex items-center justify-between text-sm">
+                        <div>
+                          <span className="font-medium">{entry.player?.name}</span>
+                          <span className="text-muted-foreground"> • {entry.bestCourse?.name || 'Unknown'}</span>
+                        </div>
+                        <div className="text-right">
+                          <span className="font-bold">{entry.bestRound.strokes}</span>
+                          <span className="text-muted-foreground"> ({entry.bestRound.holes} holes, {format(new Date(entry.bestRound.date), 'M/d/yy')})</span>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+          </TabsContent>
+
+          {/* Match Play Tab */}
+          <TabsContent value="matches">
+            {matchRecords.length === 0 ? (
+              <Card className="border-dashed">
+                <CardContent className="py-12 text-center">
+                  <p className="text-muted-foreground">No matches played yet</p>
+                  <p className="text-sm text-muted-foreground">Finish a match play round to see records</p>
+                </CardContent>
+              </Card>
+            ) : (
+              <Card>
+                <CardContent className="pt-4">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-12">#</TableHead>
+                        <TableHead>Player</TableHead>
+                        <TableHead className="text-right">Played</TableHead>
+                        <TableHead className="text-right">W</TableHead>
+                        <TableHead className="text-right">L</TableHead>
+                        <TableHead className="text-right">H</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {matchRecords.map((record, index) => (
+                        <TableRow key={record.playerId}>
+                          <TableCell className="font-medium">
+                            {index === 0 && record.won > 0 ? <Trophy className="w-4 h-4 text-amber-500" /> : index + 1}
+                          </TableCell>
+                          <TableCell>{record.player?.name}</TableCell>
+                          <TableCell className="text-right">{record.played}</TableCell>
+                          <TableCell className="text-right font-bold">{record.won}</TableCell>
+                          <TableCell className="text-right">{record.lost}</TableCell>
+                          <TableCell className="text-right">{record.halved}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            )}
+          </TabsContent>
+
+          {/* Wolf Tab */}
+          <TabsContent value="wolf">
+            {wolfRecords.length === 0 ? (
+              <Card className="border-dashed">
+                <CardContent className="py-12 text-center">
+                  <p className="text-muted-foreground">No wolf holes played yet</p>
+                  <p className="text-sm text-muted-foreground">Finish a wolf round to see how the wolves fared</p>
+                </CardContent>
+              </Card>
+            ) : (
+              <Card>
+                <CardContent className="pt-4">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Player</TableHead>
+                        <TableHead className="text-right">As Wolf</TableHead>
+                        <TableHead className="text-right">Partnered</TableHead>
+                        <TableHead className="text-right">Lone</TableHead>
+                        <TableHead className="text-right">Lone Win %</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {wolfRecords.map(record => (
+                        <TableRow key={record.playerId}>
+                          <TableCell>{record.player?.name}</TableCell>
+                          <TableCell className="text-right">{record.holesAsWolf}</TableCell>
+                          <TableCell className="text-right">{record.partneredWon}/{record.partnered}</TableCell>
+                          <TableCell className="text-right">{record.loneWolfWon}/{record.loneWolf}</TableCell>
+                          <TableCell className="text-right font-bold">
+                            {record.loneWolf > 0 ? `${Math.round(getLoneWolfRate(record) * 100)}%` : '–'}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                  <p className="text-xs text-muted-foreground mt-3">Holes won out of holes played with a partner or alone</p>
+                </CardContent>
+              </Card>
+            )}
+          </TabsContent>
         </Tabs>
 
         {/* Player Detail Dialog */}
@@ -590,9 +680,13 @@ const Statistics = () => {
             {selectedPlayer && (
               <div className="space-y-4">
                 {/* Summary Stats */}
-                <div className="grid grid-cols-3 gap-2">
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="text-center p-3 rounded-lg bg-muted">
+                    <div className="text-2xl font-bold">{formatPoints(selectedPlayer.points)}</div>
+                    <div className="text-xs text-muted-foreground">Points</div>
+                  </div>
                   <div className="text-center p-3 rounded-lg bg-muted">
-                    <div className="text-2xl font-bold">{selectedPlayer.holesWon}</div>
+                    <div className="text-2xl font-bold">{selectedPlayer.totalHolesWon}</div>
                     <div className="text-xs text-muted-foreground">Holes Won</div>
                   </div>
                   <div className="text-center p-3 rounded-lg bg-muted">
@@ -605,6 +699,37 @@ const Statistics = () => {
                   </div>
                 </div>
 
+                {/* Results by Par */}
+                {selectedPlayerParStats.length > 0 && (
+                  <div>
+                    <h4 className="text-sm font-medium mb-2">Results by Par</h4>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Hole</TableHead>
+                          <TableHead className="text-right">Played</TableHead>
+                          <TableHead className="text-right">Won</TableHead>
+                          <TableHead className="text-right">Avg Strokes</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {selectedPlayerParStats.map(entry => (
+                          <TableRow key={entry.par}>
+                            <TableCell className="font-medium">Par {entry.par}</TableCell>
+                            <TableCell className="text-right">{entry.holesPlayed}</TableCell>
+                            <TableCell className="text-right">
+                              {entry.holesWon} ({Math.round((entry.holesWon / entry.holesPlayed) * 100)}%)
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {entry.strokedHoles > 0 ? entry.averageStrokes.toFixed(2) : '–'}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+
                 {/* Course History Table */}
                 <div>
                   <h4 className="text-sm font-medium mb-2">Course History</h4>
@@ -622,7 +747,7 @@ const Statistics = () => {
                         {selectedPlayer.courseHistory.map((entry, i) => (
                           <TableRow key={i}>
                             <TableCell className="font-medium">{entry.courseName}</TableCell>
-                            <TableCell className="text-right">{entry.score}</TableCell>
+                            <TableCell className="text-right">{formatPoints(entry.score)}</TableCell>
                             <TableCell className="text-right text-muted-foreground">
                               {format(new Date(entry.date), 'M/d/yy')}
                             </TableCell>
@@ -664,6 +789,9 @@ const Statistics = () => {
               <div className="space-y-4">
                 <div className="flex gap-4 text-sm text-muted-foreground">
                   <span>{selectedCourse.course.holesPerCourse} holes</span>
+                  {getTotalPar(selectedCourse.course.holes) && (
+                    <span>Par {getTotalPar(selectedCourse.course.holes)}</span>
+                  )}
                   <span>{selectedCourse.roundsPlayed} rounds played</span>
                 </div>
 
@@ -684,7 +812,7 @@ const Statistics = () => {
                             {index === 0 ? <Trophy className="w-4 h-4 text-amber-500" /> : index + 1}
                           </TableCell>
                           <TableCell>{entry.player?.name}</TableCell>
-                          <TableCell className="text-right font-bold">{entry.score}</TableCell>
+                          <TableCell className="text-right font-bold">{formatPoints(entry.score)}</TableCell>
                           <TableCell className="text-right text-muted-foreground">
                             {format(new Date(entry.date), 'M/d/yy')}
                           </TableCell>
@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { GolfData } from "@/types/golf";
+import { applyImport, createBackup, getSeasonsClosedByMerge, parseBackup, previewImport } from "@/lib/backup";
+import { course, player, round, season } from "@/test/fixtures";
+
+const data = (overrides: Partial<GolfData> = {}): GolfData => ({
+  players: [player("a"), player("b")],
+  seasons: [season("s1")],
+  courses: [course("c1")],
+  rounds: [round()],
+  ...overrides,
+});
+
+describe("parseBackup", () => {
+  it("reads back an exported backup", async () => {
+    const backup = await createBackup(data());
+    expect((await parseBackup(JSON.stringify(backup))).data).toEqual(data());
+  });
+
+  it("rejects edited files and invalid records", async () => {
+    const backup = await createBackup(data());
+    const edited = { ...backup, data: { ...backup.data, players: [player("a", "Changed")] } };
+    await expect(parseBackup(JSON.stringify(edited))).rejects.toThrow(/checksum/);
+
+    const invalid = await createBackup(data({ players: [{ id: "a" } as never] }));
+    await expect(parseBackup(JSON.stringify(invalid))).rejects.toThrow(/1 invalid record/);
+    await expect(parseBackup("{")).rejects.toThrow(/not valid JSON/);
+  });
+});
+
+describe("previewImport", () => {
+  it("counts new, identical and conflicting records", () => {
+    const incoming = data({ players: [player("a"), player("b", "Bea"), player("c")] });
+    expect(previewImport(data(), incoming).players).toEqual({ incoming: 3, added: 1, identical: 1, conflicting: 1 });
+  });
+});
+
+describe("applyImport", () => {
+  it("keeps current records on merge and adds new ones", () => {
+    const incoming = data({ players: [player("a", "Other"), player("c")] });
+    expect(applyImport(data(), incoming, "merge").players).toEqual([player("a"), player("b"), player("c")]);
+    expect(applyImport(data(), incoming, "replace")).toBe(incoming);
+  });
+
+  it("adds a backup's active season as completed when one is already active", () => {
+    const incoming = data({ seasons: [season("s2"), season("s3", { status: "completed" })] });
+    expect(getSeasonsClosedByMerge(data(), incoming).map(s => s.id)).toEqual(["s2"]);
+
+    const merged = applyImport(data(), incoming, "merge", "2025-07-01T00:00:00.000Z");
+    expect(merged.seasons.filter(s => s.status === "active").map(s => s.id)).toEqual(["s1"]);
+    expect(merged.seasons[1]).toMatchObject({ id: "s2", status: "completed", completedAt: "2025-07-01T00:00:00.000Z" });
+  });
+
+  it("keeps a backup's active season active when none is active here", () => {
+    const current = data({ seasons: [season("s1", { status: "completed" })] });
+    const merged = applyImport(current, data({ seasons: [season("s2")] }), "merge");
+    expect(merged.seasons.find(s => s.id === "s2")?.status).toBe("active");
+  });
+});
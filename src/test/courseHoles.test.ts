@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { CourseHole } from "@/types/golf";
+import {
+  createDefaultHoles,
+  getCourseHole,
+  getResultsByPar,
+  getTotalPar,
+  hasValidStrokeIndexes,
+  resizeHoles,
+} from "@/lib/courseHoles";
+import { COMPLETED_AT, course, hole, round } from "@/test/fixtures";
+
+const holes: CourseHole[] = [
+  { number: 1, par: 4, strokeIndex: 2, distances: {} },
+  { number: 2, par: 3, strokeIndex: 3, distances: {} },
+  { number: 3, par: 5, strokeIndex: 1, distances: {} },
+];
+
+describe("course holes", () => {
+  it("looks up a hole by number and totals the par", () => {
+    expect(getCourseHole(course("c1", { holes }), 2)?.par).toBe(3);
+    expect(getCourseHole(course("c1", { holes }), 4)).toBeUndefined();
+    expect(getCourseHole(course(), 1)).toBeUndefined();
+    expect(getTotalPar(holes)).toBe(12);
+    expect(getTotalPar([])).toBeUndefined();
+  });
+
+  it("keeps existing holes when the hole count changes", () => {
+    expect(resizeHoles(holes, 2)).toEqual(holes.slice(0, 2));
+    expect(resizeHoles(holes, 4)).toEqual([...holes, createDefaultHoles(4)[3]]);
+  });
+
+  it("needs stroke indexes to use 1 to n once each, or not at all", () => {
+    expect(hasValidStrokeIndexes(holes)).toBe(true);
+    expect(hasValidStrokeIndexes(createDefaultHoles(3))).toBe(true);
+    expect(hasValidStrokeIndexes([...holes.slice(0, 2), { ...holes[2], strokeIndex: 2 }])).toBe(false);
+    expect(hasValidStrokeIndexes([...holes.slice(0, 2), { ...holes[2], strokeIndex: undefined }])).toBe(false);
+  });
+});
+
+describe("getResultsByPar", () => {
+  it("groups a player's completed holes by par", () => {
+    const rounds = [
+      round([hole(1, ["a"], { strokes: { a: 4 } }), hole(2, ["b"], { strokes: { a: 4 } }), hole(3, ["a"])], {
+        completedAt: COMPLETED_AT,
+      }),
+      round([hole(2, ["a"], { strokes: { a: 2 } })], { id: "r2", completedAt: COMPLETED_AT }),
+      round([hole(2, ["a"], { strokes: { a: 9 } })], { id: "r3" }),
+    ];
+
+    expect(getResultsByPar(rounds, [course("c1", { holes })], "a")).toEqual([
+      { par: 3, holesPlayed: 2, holesWon: 1, strokedHoles: 2, totalStrokes: 6, averageStrokes: 3 },
+      { par: 4, holesPlayed: 1, holesWon: 1, strokedHoles: 1, totalStrokes: 4, averageStrokes: 4 },
+      { par: 5, holesPlayed: 1, holesWon: 1, strokedHoles: 0, totalStrokes: 0, averageStrokes: 0 },
+    ]);
+  });
+});
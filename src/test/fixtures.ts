@@ -0,0 +1,48 @@
+import { Course, HoleResult, Player, Round, Season } from "@/types/golf";
+
+// Builders for the records the tests work with. Defaults describe a two-player
+// round r1 of season s1 on course c1; tests override only what they look at.
+
+export const STARTED_AT = "2025-06-01T10:00:00.000Z";
+export const COMPLETED_AT = "2025-06-01T14:00:00.000Z";
+
+export const hole = (holeNumber: number, winnerIds: string[] = [], overrides: Partial<HoleResult> = {}): HoleResult => ({
+  holeNumber,
+  winnerIds,
+  holeInOnePlayerIds: [],
+  ...overrides,
+});
+
+export const round = (holeResults: HoleResult[] = [], overrides: Partial<Round> = {}): Round => ({
+  id: "r1",
+  seasonId: "s1",
+  courseId: "c1",
+  playerIds: ["a", "b"],
+  holeResults,
+  startedAt: STARTED_AT,
+  ...overrides,
+});
+
+// A round from the winners of each hole in order, starting at hole 1
+export const roundOfWinners = (winners: string[][], overrides: Partial<Round> = {}): Round =>
+  round(winners.map((ids, i) => hole(i + 1, ids)), overrides);
+
+export const season = (id = "s1", overrides: Partial<Season> = {}): Season => ({
+  id,
+  name: `Season ${id}`,
+  playerIds: ["a", "b"],
+  status: "active",
+  createdAt: "2025-01-01T00:00:00.000Z",
+  ...overrides,
+});
+
+export const course = (id = "c1", overrides: Partial<Course> = {}): Course => ({
+  id,
+  name: `Course ${id}`,
+  numberOfCourses: 1,
+  holesPerCourse: 9,
+  createdAt: "2025-01-01T00:00:00.000Z",
+  ...overrides,
+});
+
+export const player = (id: string, name = id): Player => ({ id, name, createdAt: STARTED_AT });
@@ -0,0 +1,140 @@
+import { describe, it, expect } from "vitest";
+import { HoleResult } from "@/types/golf";
+import {
+  calculateCourseHandicap,
+  calculateHandicapIndex,
+  getHandicapRecord,
+  getHoleStrokeIndex,
+  getRoundNetScores,
+  getStrokesReceived,
+  MAX_HANDICAP_INDEX,
+} from "@/lib/handicap";
+import { course, hole, round } from "@/test/fixtures";
+
+// Nine par 4s, stroke index by hole number
+const ratedCourse = (courseRating: number, slopeRating: number) => course("c1", {
+  courseRating,
+  slopeRating,
+  holes: Array.from({ length: 9 }, (_, i) => ({ number: i + 1, par: 4, distances: {} })),
+});
+
+// Player a's strokes: 5 on every hole unless given
+const card = (counts: Record<number, number> = {}): HoleResult[] =>
+  Array.from({ length: 9 }, (_, i) => hole(i + 1, [], { strokes: { a: counts[i + 1] ?? 5 } }));
+
+describe("calculateHandicapIndex", () => {
+  it("needs three differentials", () => {
+    expect(calculateHandicapIndex([10, 12])).toBeUndefined();
+  });
+
+  it("uses the lowest differentials with the adjustment for how many there are", () => {
+    expect(calculateHandicapIndex([14, 10, 12])).toBe(8);
+    expect(calculateHandicapIndex([14, 10, 12, 16])).toBe(9);
+    expect(calculateHandicapIndex([20, 18, 16, 14, 12, 10])).toBe(10);
+    expect(calculateHandicapIndex([9, 11, 10, 30, 30, 30, 30])).toBe(9.5);
+  });
+
+  it("averages the best 8 of the 20 most recent", () => {
+    const twenty = Array.from({ length: 20 }, (_, i) => i + 1);
+    expect(calculateHandicapIndex(twenty)).toBe(4.5);
+    expect(calculateHandicapIndex([0, ...twenty])).toBe(4.5);
+  });
+
+  it("caps the index", () => {
+    expect(calculateHandicapIndex([70, 70, 70])).toBe(MAX_HANDICAP_INDEX);
+  });
+});
+
+describe("calculateCourseHandicap", () => {
+  it("scales the index to the holes played on unrated courses", () => {
+    expect(calculateCourseHandicap(10.4, undefined, 18)).toBe(10);
+    expect(calculateCourseHandicap(10.4, undefined, 9)).toBe(5);
+  });
+
+  it("applies slope and the difference between rating and par before rounding", () => {
+    // 12 × 9/18 × 130/113 = 6.9
+    expect(calculateCourseHandicap(12, ratedCourse(36, 130), 9)).toBe(7);
+    // 6.9 − 1.5 = 5.4
+    expect(calculateCourseHandicap(12, ratedCourse(34.5, 130), 9)).toBe(5);
+    // Twice round: 12 × 130/113 − 1.5 × 2 = 10.8
+    expect(calculateCourseHandicap(12, ratedCourse(34.5, 130), 18)).toBe(11);
+  });
+});
+
+describe("getHoleStrokeIndex", () => {
+  it("alternates the passes when a round plays the course twice", () => {
+    const holes = Array.from({ length: 18 }, (_, i) => getHoleStrokeIndex(course(), i + 1, 18));
+    expect(holes).toEqual([1, 3, 5, 7, 9, 11, 13, 15, 17, 2, 4, 6, 8, 10, 12, 14, 16, 18]);
+  });
+
+  it("ranks the holes played when a round covers part of the course", () => {
+    // The front nine of an 18-hole course holds the odd stroke indexes
+    const eighteen = course("c1", {
+      holesPerCourse: 18,
+      holes: Array.from({ length: 18 }, (_, i) => ({ number: i + 1, par: 4, strokeIndex: i < 9 ? 17 - 2 * i : 2 * (i - 8), distances: {} })),
+    });
+    const holes = Array.from({ length: 9 }, (_, i) => getHoleStrokeIndex(eighteen, i + 1, 9));
+    expect(holes).toEqual([9, 8, 7, 6, 5, 4, 3, 2, 1]);
+  });
+});
+
+describe("getRoundNetScores", () => {
+  it("shares the round's handicap over every hole it plays", () => {
+    const twice = round(Array.from({ length: 18 }, (_, i) => hole(i + 1, [], { strokes: { a: 5 } })), {
+      handicaps: { a: 9 },
+      holeCount: 18,
+    });
+    expect(getRoundNetScores(twice, course())).toEqual({ a: { strokes: 81, holes: 18 } });
+  });
+});
+
+describe("getStrokesReceived", () => {
+  it("gives strokes on the hardest holes first", () => {
+    expect([1, 5, 6, 9].map(si => getStrokesReceived(5, si, 9))).toEqual([1, 1, 0, 0]);
+    expect([1, 2, 3].map(si => getStrokesReceived(11, si, 9))).toEqual([2, 2, 1]);
+    expect(getStrokesReceived(0, 1, 9)).toBe(0);
+  });
+
+  it("gives strokes back on the easiest holes for plus handicaps", () => {
+    expect([8, 9].map(si => getStrokesReceived(-2, si, 9))).toEqual([-1, -1]);
+    expect(getStrokesReceived(-2, 7, 9)).toBeCloseTo(0);
+  });
+});
+
+describe("getHandicapRecord", () => {
+  const played = (id: string, day: number, holeResults: HoleResult[], courseId = "c1") => round(holeResults, {
+    id,
+    courseId,
+    playerIds: ["a"],
+    startedAt: `2025-06-0${day}T10:00:00.000Z`,
+    completedAt: `2025-06-0${day}T14:00:00.000Z`,
+  });
+
+  it("caps holes and scales 9-hole differentials to 18 holes", () => {
+    const courses = [ratedCourse(36, 113), course("c2")];
+    const rounds = [
+      played("r4", 4, card({ 1: 10 })),
+      played("r1", 1, card({ 1: 12 })),
+      played("r2", 2, card()),
+      played("r3", 3, card()),
+      played("r5", 5, card(), "c2"), // Unrated
+      played("r6", 6, card().slice(1)), // Missing a hole
+    ];
+
+    const record = getHandicapRecord(rounds, courses, "a");
+    // Par + 5 caps the 12 before there is an index: (40 + 9 − 36) × 2 = 26.
+    // Index 16 then plays off 8 strokes, capping the 10 at net double bogey 7: (40 + 7 − 36) × 2 = 22.
+    expect(record.differentials.map(d => [d.roundId, d.adjustedGross, d.differential])).toEqual([
+      ["r1", 49, 26],
+      ["r2", 45, 18],
+      ["r3", 45, 18],
+      ["r4", 47, 22],
+    ]);
+    expect(record.index).toBe(17);
+  });
+
+  it("has no index until three rounds are rated", () => {
+    const record = getHandicapRecord([played("r1", 1, card())], [ratedCourse(36, 113)], "a");
+    expect(record).toMatchObject({ index: undefined, differentials: [{ roundId: "r1" }] });
+  });
+});
@@ -0,0 +1,107 @@
+import "fake-indexeddb/auto";
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { GolfData } from "@/types/golf";
+import { createEmptyHistory, diffData, keepUnchangedRecords, loadHistory, saveHistory } from "@/lib/history";
+import { useGolfData } from "@/hooks/useGolfData";
+import { hole, player } from "@/test/fixtures";
+
+const data = (players = [player("a"), player("b")]): GolfData => ({ players, seasons: [], courses: [], rounds: [] });
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  sessionStorage.clear();
+});
+
+describe("keepUnchangedRecords", () => {
+  it("keeps equal records so only real changes are diffed", () => {
+    const current = data();
+    const restored = keepUnchangedRecords(current, JSON.parse(JSON.stringify(data([player("a"), player("b", "Bea")]))));
+    expect(restored.players[0]).toBe(current.players[0]);
+    expect(diffData(current, restored).map(change => change.id)).toEqual(["b"]);
+  });
+});
+
+describe("saveHistory", () => {
+  it("leaves the oldest commands out when the history doesn't fit", () => {
+    const command = (id: string) => ({ id, label: id, timestamp: "", changes: [] });
+    const setItem = Storage.prototype.setItem;
+    vi.spyOn(Storage.prototype, "setItem").mockImplementation(function (this: Storage, key, value) {
+      if (value.length > 150) throw new DOMException("Quota exceeded", "QuotaExceededError");
+      setItem.call(this, key, value);
+    });
+
+    saveHistory({ ...createEmptyHistory(), past: [command("one"), command("two"), command("three")] });
+    expect(loadHistory().past.map(c => c.id)).toEqual(["two", "three"]);
+  });
+});
+
+describe("undo", () => {
+  it("only undoes the given command while it is the latest", async () => {
+    const { result } = renderHook(() => useGolfData());
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    let removeId: string | undefined;
+    act(() => {
+      const alice = result.current.addPlayer("Alice");
+      removeId = result.current.removePlayer(result.current.addPlayer("Bob").id);
+      result.current.updatePlayer(alice.id, { name: "Alicia" });
+    });
+    act(() => {
+      result.current.undo(removeId);
+    });
+    expect(result.current.players.map(p => p.name)).toEqual(["Alicia"]);
+
+    act(() => {
+      result.current.undo();
+      result.current.undo(removeId);
+    });
+    expect(result.current.players.map(p => p.name)).toEqual(["Alice", "Bob"]);
+  });
+});
+
+describe("updateRoundHole", () => {
+  it("leaves an unchanged hole and its save time alone", async () => {
+    const { result } = renderHook(() => useGolfData());
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    let roundId = "";
+    act(() => {
+      roundId = result.current.createRound("s1", "c1", ["a", "b"]).id;
+      result.current.updateRoundHole(roundId, hole(1, ["a"]));
+    });
+    const saved = result.current.rounds[0].holeResults[0];
+
+    let saveId: string | undefined;
+    act(() => {
+      saveId = result.current.updateRoundHole(roundId, hole(1, ["a"]));
+    });
+    expect(saveId).toBeUndefined();
+    expect(result.current.rounds[0].holeResults[0]).toBe(saved);
+
+    act(() => {
+      result.current.updateRoundHole(roundId, hole(1, ["b"]));
+    });
+    expect(result.current.rounds[0].holeResults[0].winnerIds).toEqual(["b"]);
+  });
+});
+
+describe("setRoundCurrentHole", () => {
+  it("keeps the current hole off the round record", async () => {
+    const { result } = renderHook(() => useGolfData());
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    let roundId = "";
+    act(() => {
+      roundId = result.current.createRound("s1", "c1", ["a", "b"]).id;
+    });
+    const round = result.current.rounds[0];
+
+    act(() => {
+      result.current.setRoundCurrentHole(roundId, 4);
+    });
+    expect(result.current.getRoundCurrentHole(roundId)).toBe(4);
+    expect(result.current.rounds[0]).toBe(round);
+    expect(result.current.canUndo && result.current.undoLabel).toBe("Start round");
+  });
+});
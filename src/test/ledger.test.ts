@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { HoleResult, Round, Stakes } from "@/types/golf";
+import { getLedger, getLedgerBalances, getRoundWagers, getSettleUpTransfers } from "@/lib/ledger";
+import { COMPLETED_AT, hole, round as baseRound } from "@/test/fixtures";
+
+const stakes: Stakes = { perHole: 1, perSkin: 2, perNassauBet: 5, perPoint: 0.5 };
+
+const round = (holeResults: HoleResult[], overrides: Partial<Round> = {}) =>
+  baseRound(holeResults, { playerIds: ["a", "b", "c"], stakes, completedAt: COMPLETED_AT, ...overrides });
+
+describe("getRoundWagers", () => {
+  it("pays holes won outright and pushes ties", () => {
+    expect(getRoundWagers(round([hole(1, ["a"]), hole(2, ["a", "b"]), hole(3, ["c"])])))
+      .toEqual({ a: 1, b: -2, c: 1 });
+  });
+
+  it("pays skins including the carry-over", () => {
+    const skins = round([hole(1, ["a", "b"]), hole(2, ["b"])], { format: "skins" });
+    expect(getRoundWagers(skins)).toEqual({ a: -4, b: 8, c: -4 });
+  });
+
+  it("shares a team's winnings among its members", () => {
+    const teamRound = round([hole(1, ["a", "b"], { winnerTeamIds: ["t1"] })], {
+      teams: [
+        { id: "t1", name: "Team 1", playerIds: ["a", "b"] },
+        { id: "t2", name: "Team 2", playerIds: ["c"] },
+      ],
+    });
+    expect(getRoundWagers(teamRound)).toEqual({ a: 0.5, b: 0.5, c: -1 });
+  });
+
+  it("settles Stableford point differences between every pair", () => {
+    const stableford = round([hole(1, [], { stablefordPoints: { a: 4, b: 2, c: 0 } })], { format: "stableford" });
+    expect(getRoundWagers(stableford)).toEqual({ a: 3, b: 0, c: -3 });
+  });
+
+  it("plays nothing without stakes", () => {
+    expect(getRoundWagers(round([hole(1, ["a"])], { stakes: undefined }))).toEqual({ a: 0, b: 0, c: 0 });
+  });
+});
+
+describe("getLedger", () => {
+  it("keeps running balances over completed rounds in play order", () => {
+    const ledger = getLedger([
+      round([hole(1, ["b"])], { id: "r2", startedAt: "2025-06-08T10:00:00.000Z" }),
+      round([hole(1, ["a"])]),
+      round([hole(1, ["c"])], { id: "r3", completedAt: undefined }),
+    ]);
+    expect(ledger.map(entry => entry.roundId)).toEqual(["r1", "r2"]);
+    expect(ledger[0].balances).toEqual({ a: 2, b: -1, c: -1 });
+    expect(getLedgerBalances(ledger)).toEqual({ a: 1, b: 1, c: -2 });
+  });
+});
+
+describe("getSettleUpTransfers", () => {
+  it("clears every balance with as few transfers as it takes", () => {
+    expect(getSettleUpTransfers({ a: 10, b: -4, c: -6, d: 0 })).toEqual([
+      { fromId: "c", toId: "a", amount: 6 },
+      { fromId: "b", toId: "a", amount: 4 },
+    ]);
+    expect(getSettleUpTransfers({ a: 5, b: -5 })).toHaveLength(1);
+    expect(getSettleUpTransfers({ a: 0, b: 0 })).toEqual([]);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect, vi } from "vitest";
+import { fireEvent, render, screen } from "@testing-library/react";
+import { CourseSearchMap } from "@/components/maps/CourseSearchMap";
+import { ManualCourseEntry } from "@/components/course/ManualCourseEntry";
+import { createMockMapProvider, DEFAULT_MAP_CENTER, getMapProviderId, MOCK_COURSES, parseCoordinates } from "@/lib/maps";
+
+describe("getMapProviderId", () => {
+  it("uses the configured provider", () => {
+    expect(getMapProviderId({ provider: "mock" })).toBe("mock");
+    expect(getMapProviderId({ provider: "osm", googleMapsApiKey: "key" })).toBe("osm");
+  });
+
+  it("prefers Google when a key is set and OpenStreetMap otherwise", () => {
+    expect(getMapProviderId({ googleMapsApiKey: "key" })).toBe("google");
+    expect(getMapProviderId({})).toBe("osm");
+  });
+});
+
+describe("mock map provider", () => {
+  it("finds courses by name or address", async () => {
+    const provider = createMockMapProvider();
+    expect((await provider.search("links")).map(s => s.location?.name)).toEqual(["Heather Links"]);
+    expect(await provider.search("nowhere")).toEqual([]);
+  });
+});
+
+describe("CourseSearchMap", () => {
+  it("searches and selects a course without network access", async () => {
+    const onLocationSelect = vi.fn();
+    render(<CourseSearchMap provider={createMockMapProvider()} onLocationSelect={onLocationSelect} />);
+
+    fireEvent.change(screen.getByPlaceholderText("Search for a golf course..."), { target: { value: "riverside" } });
+    await screen.findByText("Map preview unavailable");
+    fireEvent.click(screen.getByRole("button"));
+    fireEvent.click(await screen.findByText(/Riverside Golf Course, 40 Mill Street/));
+
+    await vi.waitFor(() => expect(onLocationSelect).toHaveBeenCalledWith(MOCK_COURSES[2]));
+    expect(screen.getByText("Riverside Golf Course (52.200, 0.120)")).toBeInTheDocument();
+  });
+
+  it("passes on taps on the map", async () => {
+    const onPick = vi.fn();
+    render(<CourseSearchMap provider={createMockMapProvider()} onLocationSelect={vi.fn()} onPick={onPick} />);
+
+    fireEvent.click(await screen.findByText("Map preview unavailable"));
+    expect(onPick).toHaveBeenCalledWith(DEFAULT_MAP_CENTER);
+  });
+});
+
+describe("parseCoordinates", () => {
+  it("accepts blank fields, a pasted pair or two numbers", () => {
+    expect(parseCoordinates({ lat: "", lng: " " })).toEqual({});
+    expect(parseCoordinates({ lat: "52.2, 0.12", lng: "" })).toEqual({ coordinates: { lat: 52.2, lng: 0.12 } });
+    expect(parseCoordinates({ lat: "-33.9", lng: "151.2" })).toEqual({ coordinates: { lat: -33.9, lng: 151.2 } });
+  });
+
+  it("rejects half-filled, non-numeric and out-of-range values", () => {
+    expect(parseCoordinates({ lat: "52.2", lng: "" }).error).toMatch(/both/);
+    expect(parseCoordinates({ lat: "north", lng: "0.1" }).error).toMatch(/Latitude/);
+    expect(parseCoordinates({ lat: "52", lng: "181" }).error).toMatch(/Longitude/);
+  });
+});
+
+describe("ManualCourseEntry", () => {
+  it("fills in the coordinates when the map is tapped", async () => {
+    const onChange = vi.fn();
+    const value = { name: "Pitch & Putt", address: "", lat: "", lng: "" };
+    render(<ManualCourseEntry value={value} onChange={onChange} provider={createMockMapProvider()} />);
+
+    fireEvent.click(await screen.findByText("Map preview unavailable"));
+    expect(onChange).toHaveBeenCalledWith({
+      ...value,
+      lat: DEFAULT_MAP_CENTER.lat.toFixed(6),
+      lng: DEFAULT_MAP_CENTER.lng.toFixed(6),
+    });
+  });
+});
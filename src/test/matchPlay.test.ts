@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { Round } from "@/types/golf";
+import { formatMatchStatus, getMatchRecords, getMatchResult, getMatchStatus } from "@/lib/matchPlay";
+import { roundOfWinners } from "@/test/fixtures";
+
+const match = (winners: string[][], overrides: Partial<Round> = {}) =>
+  roundOfWinners(winners, { id: "m1", format: "match", ...overrides });
+
+const sides = [
+  { id: "a", playerIds: ["a"], label: "Alice" },
+  { id: "b", playerIds: ["b"], label: "Bob" },
+];
+
+describe("getMatchStatus", () => {
+  it("counts holes up with halved holes in between", () => {
+    const status = getMatchStatus(match([["a"], ["a", "b"], ["a"], []]), 9);
+    expect(status).toMatchObject({ leaderId: "a", lead: 2, holesPlayed: 4, holesRemaining: 5, closedOut: false });
+    expect(formatMatchStatus(status, sides)).toBe("Alice 2 UP with 5 to play");
+  });
+
+  it("closes out the match once the lead beats the holes left", () => {
+    const status = getMatchStatus(match([["b"], ["b"], ["b"], ["b"], ["b"], ["a"], ["b"]]), 9);
+    expect(status.closedOut).toBe(true);
+    expect(getMatchResult(status)).toEqual({ winnerId: "b", result: "5&4" });
+    expect(formatMatchStatus(status, sides)).toBe("Bob wins 5&4");
+  });
+
+  it("ignores holes recorded after the match was decided", () => {
+    const status = getMatchStatus(match([["a"], ["a"], ["a"], ["b"]]), 4);
+    expect(getMatchResult(status)).toEqual({ winnerId: "a", result: "3&1" });
+  });
+
+  it("reports dormie and a final one-up result", () => {
+    const dormie = getMatchStatus(match([["a"], ["b"], ["a"]]), 4);
+    expect(dormie.dormie).toBe(true);
+    expect(getMatchResult(getMatchStatus(match([["a"], ["b"], ["a"], []]), 4))).toEqual({ winnerId: "a", result: "1 UP" });
+  });
+
+  it("halves an all-square match", () => {
+    const status = getMatchStatus(match([["a"], ["b"]]), 2);
+    expect(getMatchResult(status)).toEqual({ result: "Halved" });
+    expect(formatMatchStatus(status, sides)).toBe("Match halved");
+  });
+});
+
+describe("getMatchRecords", () => {
+  it("tallies wins, losses and halves from finished matches only", () => {
+    const rounds = [
+      match([], { id: "m1", completedAt: "x", matchResult: { winnerId: "a", result: "2&1" } }),
+      match([], { id: "m2", completedAt: "x", matchResult: { result: "Halved" } }),
+      match([], { id: "m3", matchResult: { winnerId: "b", result: "1 UP" } }),
+      match([], { id: "m4", completedAt: "x", format: "holes" }),
+    ];
+    expect(getMatchRecords(rounds, ["a", "b"])).toEqual([
+      { playerId: "a", played: 2, won: 1, lost: 0, halved: 1 },
+      { playerId: "b", played: 2, won: 0, lost: 1, halved: 1 },
+    ]);
+  });
+});
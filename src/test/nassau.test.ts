@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import { getNassauBets, getNassauBetsWon, getNassauSegments } from "@/lib/nassau";
+import { getRoundPoints } from "@/lib/scoring";
+import { roundOfWinners } from "@/test/fixtures";
+
+const nassau = (winners: string[][], presses = false) =>
+  roundOfWinners(winners, { id: "n1", format: "nassau", nassau: { segments: getNassauSegments(18, 18), presses } });
+
+describe("getNassauSegments", () => {
+  it("splits an 18-hole course into its nines", () => {
+    expect(getNassauSegments(18, 18)).toEqual([{ startHole: 1, endHole: 9 }, { startHole: 10, endHole: 18 }]);
+  });
+
+  it("keeps a 9-hole round on a 9-hole course as one nine", () => {
+    expect(getNassauSegments(9, 9)).toEqual([{ startHole: 1, endHole: 9 }]);
+  });
+
+  it("counts a nine for every pass over a 9-hole course", () => {
+    expect(getNassauSegments(18, 9)).toEqual([{ startHole: 1, endHole: 9 }, { startHole: 10, endHole: 18 }]);
+    expect(getNassauSegments(27, 9)).toEqual([
+      { startHole: 1, endHole: 9 },
+      { startHole: 10, endHole: 18 },
+      { startHole: 19, endHole: 27 },
+    ]);
+  });
+
+  it("goes on in nines when a round plays part of an 18-hole course again", () => {
+    expect(getNassauSegments(27, 18)).toEqual([
+      { startHole: 1, endHole: 9 },
+      { startHole: 10, endHole: 18 },
+      { startHole: 19, endHole: 27 },
+    ]);
+  });
+
+  it("splits shorter courses into their halves", () => {
+    expect(getNassauSegments(12, 12)).toEqual([{ startHole: 1, endHole: 6 }, { startHole: 7, endHole: 12 }]);
+  });
+});
+
+describe("getNassauBets", () => {
+  it("plays the front, back and overall as separate matches", () => {
+    const front = [["a"], ["a"], ["a"], ["a"], ["a"], ["a"], [], [], []];
+    const back = [["b"], ["b"], [], [], [], [], [], [], []];
+    const bets = getNassauBets(nassau([...front, ...back]));
+
+    expect(bets.map(bet => bet.label)).toEqual(["Front", "Back", "Overall"]);
+    expect(bets[0].status).toMatchObject({ leaderId: "a", lead: 5, closedOut: true });
+    expect(bets[1].status).toMatchObject({ leaderId: "b", lead: 2, closedOut: true });
+    expect(bets[2].status).toMatchObject({ leaderId: "a", lead: 4 });
+    expect(getNassauBetsWon(nassau([...front, ...back]))).toEqual({ a: 2, b: 1 });
+  });
+
+  it("starts a press when a side goes two down", () => {
+    const bets = getNassauBets(nassau([["a"], ["a"], ["b"], ["b"], ["b"], [], [], [], []], true));
+    const press = bets.find(bet => bet.press);
+
+    expect(press).toMatchObject({ label: "Front press (from 3)", startHole: 3, endHole: 9 });
+    expect(press.status).toMatchObject({ leaderId: "b", lead: 3 });
+  });
+
+  it("plays a single nine as one match", () => {
+    const round = roundOfWinners([["a"], ["a"]], { format: "nassau", nassau: { segments: getNassauSegments(9, 9), presses: false } });
+    expect(getNassauBets(round).map(bet => bet.label)).toEqual(["Holes 1–9"]);
+  });
+
+  it("skips presses when they are turned off", () => {
+    expect(getNassauBets(nassau([["a"], ["a"], ["a"]])).some(bet => bet.press)).toBe(false);
+  });
+
+  it("awards the hole points per bet won", () => {
+    const front = [["a"], ["a"], ["a"], ["a"], ["a"], [], [], [], []];
+    expect(getRoundPoints(nassau(front))).toEqual({ a: 1, b: 0 });
+  });
+});
@@ -0,0 +1,191 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { GolfData, Round } from "@/types/golf";
+import {
+  applySeasonPush,
+  createSeasonSpace,
+  getPushedRecords,
+  getRecordsSince,
+  mergeHoleResults,
+  SeasonSyncRequest,
+} from "@/lib/remoteSync";
+import {
+  acquireSyncLock,
+  createRemoteSyncState,
+  finishRemoteSync,
+  getRemoteChanges,
+  getSeasonSyncs,
+  queueChanges,
+  runRemoteSync,
+} from "@/lib/syncClient";
+import { course, hole as baseHole, player, round, season } from "@/test/fixtures";
+
+const hole = (holeNumber: number, winnerIds: string[], updatedAt?: string) => baseHole(holeNumber, winnerIds, { updatedAt });
+
+const data = (rounds: Round[]): GolfData => ({
+  players: [player("a"), player("b")],
+  seasons: [season()],
+  courses: [course()],
+  rounds,
+});
+
+describe("mergeHoleResults", () => {
+  it("keeps holes from both sides and the later save of a shared hole", () => {
+    const merged = mergeHoleResults(
+      [hole(1, ["a"], "2025-06-01T10:05:00Z"), hole(2, ["a"], "2025-06-01T10:20:00Z")],
+      [hole(2, ["b"], "2025-06-01T10:10:00Z"), hole(3, ["b"], "2025-06-01T10:30:00Z")]
+    );
+    expect(merged.map(h => [h.holeNumber, h.winnerIds])).toEqual([[1, ["a"]], [2, ["a"]], [3, ["b"]]]);
+  });
+});
+
+describe("applySeasonPush", () => {
+  it("merges a round changed by another device since the pusher last saw it", () => {
+    let space = applySeasonPush(createSeasonSpace(), [
+      { store: "rounds", id: "r1", record: round([hole(1, ["a"], "2025-06-01T10:05:00Z")]), baseRevision: 0 },
+    ]);
+    space = applySeasonPush(space, [
+      { store: "rounds", id: "r1", record: round([hole(2, ["b"], "2025-06-01T10:10:00Z")]), baseRevision: 0 },
+    ]);
+    expect(space.revision).toBe(2);
+    expect((space.records["rounds:r1"].record as Round).holeResults.map(h => h.holeNumber)).toEqual([1, 2]);
+  });
+
+  it("takes the pushed round as is when the pusher had the latest revision", () => {
+    let space = applySeasonPush(createSeasonSpace(), [
+      { store: "rounds", id: "r1", record: round([hole(1, ["a"]), hole(2, ["b"])]), baseRevision: 0 },
+    ]);
+    space = applySeasonPush(space, [{ store: "rounds", id: "r1", record: round([hole(1, ["a"])]), baseRevision: 1 }]);
+    expect((space.records["rounds:r1"].record as Round).holeResults).toHaveLength(1);
+    expect(getRecordsSince(space, 1).map(r => r.revision)).toEqual([2]);
+  });
+});
+
+describe("getPushedRecords", () => {
+  it("sends a round's course and a season's players along", () => {
+    const pushed = getPushedRecords([{ store: "rounds", id: "r1" }, { store: "seasons", id: "s1" }], data([round([])]));
+    expect(pushed.map(p => `${p.store}:${p.id}`)).toEqual(["rounds:r1", "courses:c1", "seasons:s1", "players:a", "players:b"]);
+  });
+});
+
+describe("sync queue", () => {
+  it("queues changes under their seasons and clears them once pushed", () => {
+    const r = round([hole(1, ["a"])]);
+    const current = data([r]);
+    const queued = queueChanges(createRemoteSyncState(), [{ store: "rounds", id: "r1", after: r }], current);
+    expect(queued.queue).toEqual([{ store: "rounds", id: "r1", seasonIds: ["s1"] }]);
+
+    const finished = finishRemoteSync(queued, {
+      seasonRevisions: { s1: 3 },
+      recordRevisions: { "rounds:r1": 3 },
+      pushed: new Map([["rounds:r1", r]]),
+      records: [],
+    }, current);
+    expect(finished.queue).toEqual([]);
+    expect(finished.seasonRevisions).toEqual({ s1: 3 });
+  });
+
+  it("keeps a record queued when it changed again while the push was out", () => {
+    const r = round([hole(1, ["a"])]);
+    const queued = queueChanges(createRemoteSyncState(), [{ store: "rounds", id: "r1", after: r }], data([r]));
+    const finished = finishRemoteSync(queued, {
+      seasonRevisions: {},
+      recordRevisions: {},
+      pushed: new Map([["rounds:r1", r]]),
+      records: [],
+    }, data([round([hole(1, ["a"]), hole(2, ["b"])])]));
+    expect(finished.queue).toHaveLength(1);
+  });
+
+  it("applies only server records that differ and aren't waiting to be pushed", () => {
+    const local = round([hole(1, ["a"])]);
+    const remote = { store: "rounds" as const, id: "r1", record: round([hole(1, ["a"]), hole(2, ["b"])]), revision: 2 };
+    const same = { store: "courses" as const, id: "c1", record: course(), revision: 2 };
+    const state = createRemoteSyncState();
+
+    expect(getRemoteChanges([remote, same], state, data([local]))).toEqual([
+      { store: "rounds", id: "r1", after: remote.record },
+    ]);
+    const waiting = { ...state, queue: [{ store: "rounds" as const, id: "r1", seasonIds: ["s1"] }] };
+    expect(getRemoteChanges([remote], waiting, data([local]))).toEqual([]);
+  });
+});
+
+describe("first sync", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("uploads the seasons this device already has", async () => {
+    // A sync server holding nothing yet
+    let space = createSeasonSpace();
+    vi.stubGlobal("fetch", async (_url: string, init?: RequestInit) => {
+      if (!init?.body) return Response.json([]);
+      const { since, changes } = JSON.parse(String(init.body)) as SeasonSyncRequest;
+      space = applySeasonPush(space, changes);
+      return Response.json({ revision: space.revision, records: getRecordsSince(space, since) });
+    });
+
+    const existing = data([round([hole(1, ["a"])])]);
+    const state = createRemoteSyncState();
+    const result = await runRemoteSync(state, existing);
+
+    expect(Object.keys(space.records).sort()).toEqual(["courses:c1", "players:a", "players:b", "rounds:r1", "seasons:s1"]);
+    const finished = finishRemoteSync(state, result, existing);
+    expect(finished.seasonRevisions).toEqual({ s1: 1 });
+    expect(getSeasonSyncs(finished, [{ id: "s1", revision: 1 }], existing)).toEqual([]);
+  });
+
+  it("uploads a season again when the server is behind what this device saw", () => {
+    const state = { ...createRemoteSyncState(), seasonRevisions: { s1: 5 } };
+    const existing = data([round([])]);
+    expect(getSeasonSyncs(state, [{ id: "s1", revision: 5 }], existing)).toEqual([]);
+    expect(getSeasonSyncs(state, [{ id: "s1", revision: 2 }], existing)).toEqual([{
+      seasonId: "s1",
+      since: 0,
+      keys: [{ store: "seasons", id: "s1" }, { store: "rounds", id: "r1" }],
+      full: true,
+    }]);
+  });
+});
+
+describe("acquireSyncLock", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  // One lock, granted in request order
+  const fakeLocks = () => {
+    let held = false;
+    const waiting: Array<() => void> = [];
+    const grant = async <T,>(callback: (lock: object | null) => Promise<T>) => {
+      held = true;
+      try {
+        return await callback({});
+      } finally {
+        held = false;
+        waiting.shift()?.();
+      }
+    };
+    return {
+      request: <T,>(_name: string, options: { ifAvailable?: boolean; signal?: AbortSignal }, callback: (lock: object | null) => Promise<T>) => {
+        if (!held) return grant(callback);
+        if (options.ifAvailable) return callback(null);
+        return new Promise<T>((resolve, reject) => {
+          waiting.push(() => grant(callback).then(resolve, reject));
+          options.signal?.addEventListener("abort", () => reject(new DOMException("Aborted", "AbortError")));
+        });
+      },
+    };
+  };
+
+  it("lets one tab sync at a time and hands over when it stops", async () => {
+    vi.stubGlobal("navigator", { locks: fakeLocks() });
+    const events: string[] = [];
+    const releaseFirst = acquireSyncLock(() => events.push("first syncs"), () => events.push("first waits"));
+    acquireSyncLock(() => events.push("second syncs"), () => events.push("second waits"));
+    await vi.waitFor(() => expect(events).toEqual(["first syncs", "second waits"]));
+
+    releaseFirst();
+    await vi.waitFor(() => expect(events).toEqual(["first syncs", "second waits", "second syncs"]));
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect } from "vitest";
+import { HoleResult, Round } from "@/types/golf";
+import {
+  createHoleResult,
+  describeHoleChanges,
+  getNetRound,
+  getRoundFormatDefaults,
+  getRoundHoleCount,
+  getRoundSetupProblem,
+} from "@/lib/rounds";
+import { COMPLETED_AT, course, hole, round as baseRound, season } from "@/test/fixtures";
+
+const round = (overrides: Partial<Round> = {}) => baseRound([], { completedAt: COMPLETED_AT, ...overrides });
+
+const names: Record<string, string> = { a: "Alice", b: "Bob", t1: "Team 1" };
+const getName = (id: string) => names[id];
+
+describe("createHoleResult", () => {
+  it("derives winners from strokes when they are entered", () => {
+    const result = createHoleResult(round(), undefined, {
+      holeNumber: 3,
+      winners: ["b"],
+      strokes: { a: 4, b: 5 },
+      holeInOnePlayerIds: [],
+    });
+    expect(result).toMatchObject({ holeNumber: 3, winnerIds: ["a"], strokes: { a: 4, b: 5 } });
+  });
+
+  it("credits team winners to every member", () => {
+    const teamRound = round({
+      teams: [{ id: "t1", name: "Team 1", playerIds: ["a", "b"] }, { id: "t2", name: "Team 2", playerIds: [] }],
+    });
+    const result = createHoleResult(teamRound, undefined, { holeNumber: 1, winners: ["t1"], holeInOnePlayerIds: [] });
+    expect(result).toMatchObject({ winnerIds: ["a", "b"], winnerTeamIds: ["t1"] });
+  });
+
+  it("scores Stableford points against the entered par", () => {
+    const result = createHoleResult(round({ format: "stableford" }), undefined, {
+      holeNumber: 1,
+      winners: [],
+      strokes: { a: 3, b: 5 },
+      holeInOnePlayerIds: [],
+      par: 4,
+    });
+    expect(result.stablefordPoints).toEqual({ a: 3, b: 1 });
+  });
+});
+
+describe("describeHoleChanges", () => {
+  it("lists what a correction changed", () => {
+    const before = hole(1, ["a"], { strokes: { a: 4, b: 5 } });
+    const after = hole(1, ["b"], { strokes: { a: 6, b: 5 } });
+    expect(describeHoleChanges(before, after, getName)).toEqual([
+      "Winners: Alice → Bob",
+      "Alice: 4 → 6 strokes",
+    ]);
+    expect(describeHoleChanges(after, after, getName)).toEqual([]);
+  });
+});
+
+describe("getRoundHoleCount", () => {
+  it("covers the course and any extra recorded holes", () => {
+    expect(getRoundHoleCount(round(), undefined)).toBe(18);
+    expect(getRoundHoleCount(round({ holeResults: [hole(12)] }), course())).toBe(12);
+  });
+
+  it("prefers the hole count stored on the round", () => {
+    expect(getRoundHoleCount(round({ holeCount: 9 }), course("c1", { holesPerCourse: 18 }))).toBe(9);
+  });
+});
+
+describe("getNetRound", () => {
+  it("scores holes with strokes again off the round's handicaps", () => {
+    const played = round({
+      handicaps: { a: 0, b: 1 },
+      holeResults: [hole(1, ["a"], { strokes: { a: 4, b: 5 } }), hole(2, ["b"], { strokes: { a: 4, b: 3 } }), hole(3, ["b"])],
+    });
+    expect(getNetRound(played, course()).holeResults.map(h => h.winnerIds)).toEqual([["a", "b"], ["b"], ["b"]]);
+  });
+
+  it("leaves net and scramble rounds as played", () => {
+    const net = round({ handicaps: { b: 1 }, netScoring: true });
+    expect(getNetRound(net, course())).toBe(net);
+    const scramble = round({ handicaps: { b: 1 }, teams: [{ id: "t1", name: "Team 1", playerIds: ["a", "b"] }], teamFormat: "scramble" });
+    expect(getNetRound(scramble, course())).toBe(scramble);
+  });
+});
+
+describe("getRoundFormatDefaults", () => {
+  it("starts Stableford seasons on Stableford with the season's table", () => {
+    expect(getRoundFormatDefaults(season(), undefined, undefined)).toEqual({ format: "holes", stablefordTable: "standard" });
+    const stableford = season("s1", { rules: { pointsPerHole: 1, tieMode: "split", holeInOneBonus: 0, roundWinPoints: 0, stableford: "modified" } });
+    expect(getRoundFormatDefaults(stableford, undefined, undefined)).toEqual({ format: "stableford", stablefordTable: "modified" });
+    expect(getRoundFormatDefaults(stableford, "skins", "standard")).toEqual({ format: "skins", stablefordTable: "standard" });
+  });
+});
+
+describe("getRoundSetupProblem", () => {
+  it("needs two sides for matches and three players without teams for wolf", () => {
+    expect(getRoundSetupProblem("match", ["a", "b"], undefined)).toBeUndefined();
+    expect(getRoundSetupProblem("nassau", ["a", "b", "c"], undefined)?.title).toBe("Nassau needs two sides");
+    expect(getRoundSetupProblem("wolf", ["a", "b"], undefined)?.title).toBe("Wolf needs three or more players");
+    expect(getRoundSetupProblem("wolf", ["a", "b", "c"], undefined)).toBeUndefined();
+  });
+
+  it("checks teams whether they play better ball or a scramble", () => {
+    const players = ["a", "b", "c", "d"];
+    const teams = [
+      { id: "t1", name: "Team 1", playerIds: ["a", "b"] },
+      { id: "t2", name: "Team 2", playerIds: ["c", "d"] },
+    ];
+    expect(getRoundSetupProblem("match", players, teams)).toBeUndefined();
+    expect(getRoundSetupProblem("wolf", players, teams)?.title).toBe("Wolf needs three or more players");
+    expect(getRoundSetupProblem("holes", [...players, "e"], teams)?.title).toBe("Check the teams");
+    expect(getRoundSetupProblem("holes", players, [teams[0], { ...teams[1], name: " " }])?.title).toBe("Check the teams");
+    expect(getRoundSetupProblem("match", players, [...teams, { id: "t3", name: "Team 3", playerIds: ["d"] }])?.title)
+      .toBe("Match play needs two sides");
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+import { getRunningTotals, getScorecardSections, getScorecardTotals } from "@/lib/scorecard";
+import { hole, round } from "@/test/fixtures";
+
+describe("getScorecardSections", () => {
+  it("splits 18 holes into out and in", () => {
+    expect(getScorecardSections(18)).toEqual([
+      { label: "Out", startHole: 1, endHole: 9 },
+      { label: "In", startHole: 10, endHole: 18 },
+    ]);
+    expect(getScorecardSections(9)).toEqual([{ label: "Total", startHole: 1, endHole: 9 }]);
+  });
+});
+
+describe("getScorecardTotals", () => {
+  it("counts holes won when no strokes are recorded", () => {
+    const r = round([hole(1, ["a"]), hole(2, ["a", "b"]), hole(10, ["b"])]);
+    expect(getScorecardTotals(r, ["a", "b"], 1, 9)).toEqual({ a: 2, b: 1 });
+    expect(getScorecardTotals(r, ["a", "b"], 10, 18)).toEqual({ a: 0, b: 1 });
+  });
+
+  it("adds up strokes when the round records them", () => {
+    const r = round([hole(1, ["a"], { strokes: { a: 4, b: 5 } }), hole(2, ["b"], { strokes: { a: 6, b: 3 } })]);
+    expect(getScorecardTotals(r, ["a", "b"], 1, 9)).toEqual({ a: 10, b: 8 });
+  });
+});
+
+describe("getRunningTotals", () => {
+  it("keeps a total after each recorded hole in hole order", () => {
+    const r = round([hole(3, ["b"]), hole(1, ["a"]), hole(2, ["a"])]);
+    expect(getRunningTotals(r, ["a", "b"])).toEqual({
+      1: { a: 1, b: 0 },
+      2: { a: 2, b: 0 },
+      3: { a: 2, b: 1 },
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect } from "vitest";
+import { HoleResult, Round, ScoringRules } from "@/types/golf";
+import {
+  DEFAULT_SCORING_RULES,
+  formatPoints,
+  getRoundPoints,
+  getRoundWinners,
+  getRoundWinPoints,
+  getSeasonStandings,
+} from "@/lib/scoring";
+
+import { COMPLETED_AT, hole, round as baseRound } from "@/test/fixtures";
+
+const round = (holeResults: HoleResult[], overrides: Partial<Round> = {}) =>
+  baseRound(holeResults, { playerIds: ["a", "b", "c"], completedAt: COMPLETED_AT, ...overrides });
+
+const rules = (overrides: Partial<ScoringRules>): ScoringRules => ({ ...DEFAULT_SCORING_RULES, ...overrides });
+
+describe("getRoundPoints", () => {
+  it("gives one point per hole won by default, ties included", () => {
+    const points = getRoundPoints(round([hole(1, ["a"]), hole(2, ["a", "b"]), hole(3, [])]));
+    expect(points).toEqual({ a: 2, b: 1, c: 0 });
+  });
+
+  it("splits tied hole points when the season says so", () => {
+    const points = getRoundPoints(round([hole(1, ["a", "b"]), hole(2, ["c"])]), rules({ tieMode: "split", pointsPerHole: 2 }));
+    expect(points).toEqual({ a: 1, b: 1, c: 2 });
+  });
+
+  it("adds the hole-in-one bonus", () => {
+    const points = getRoundPoints(round([hole(1, ["b"], { holeInOnePlayerIds: ["b"] })]), rules({ holeInOneBonus: 5 }));
+    expect(points.b).toBe(6);
+  });
+
+  it("scores skins rounds per skin with carry-overs", () => {
+    const skinsRound = round([hole(1, ["a", "b"]), hole(2, []), hole(3, ["c"]), hole(4, ["a"])], { format: "skins" });
+    expect(getRoundPoints(skinsRound)).toEqual({ a: 1, b: 0, c: 3 });
+  });
+});
+
+describe("team rounds", () => {
+  const teams = [
+    { id: "t1", name: "Team 1", playerIds: ["a", "b"] },
+    { id: "t2", name: "Team 2", playerIds: ["c", "d"] },
+  ];
+  const teamHole = (holeNumber: number, winnerTeamIds: string[]): HoleResult => ({
+    ...hole(holeNumber, winnerTeamIds.flatMap(id => teams.find(t => t.id === id)!.playerIds)),
+    winnerTeamIds,
+  });
+  const teamRound = (holeResults: HoleResult[], overrides: Partial<Round> = {}) =>
+    round(holeResults, { playerIds: ["a", "b", "c", "d"], teams, ...overrides });
+
+  it("credits every member of a winning team in full", () => {
+    expect(getRoundPoints(teamRound([teamHole(1, ["t1"]), teamHole(2, ["t1"])]))).toEqual({ a: 2, b: 2, c: 0, d: 0 });
+  });
+
+  it("splits tied holes between teams, not players", () => {
+    const points = getRoundPoints(teamRound([teamHole(1, ["t1", "t2"])]), rules({ tieMode: "split" }));
+    expect(points).toEqual({ a: 0.5, b: 0.5, c: 0.5, d: 0.5 });
+  });
+
+  it("awards skins to teams", () => {
+    const skinsRound = teamRound([teamHole(1, ["t1", "t2"]), teamHole(2, ["t2"])], { format: "skins" });
+    expect(getRoundPoints(skinsRound)).toEqual({ a: 0, b: 0, c: 2, d: 2 });
+  });
+
+  it("gives each member of the winning team the full round-win points", () => {
+    const won = teamRound([teamHole(1, ["t2"])]);
+    expect(getRoundWinPoints(won, rules({ roundWinPoints: 2, tieMode: "split" }))).toEqual({ c: 2, d: 2 });
+  });
+});
+
+describe("getRoundWinners", () => {
+  it("returns every player on the top score", () => {
+    expect(getRoundWinners(round([hole(1, ["a"]), hole(2, ["b"])]))).toEqual(["a", "b"]);
+  });
+
+  it("has no winner when nobody scored", () => {
+    expect(getRoundWinners(round([hole(1, [])]))).toEqual([]);
+  });
+});
+
+describe("getRoundWinPoints", () => {
+  it("only awards completed rounds", () => {
+    const inProgress = round([hole(1, ["a"])], { completedAt: undefined });
+    expect(getRoundWinPoints(inProgress, rules({ roundWinPoints: 3 }))).toEqual({});
+  });
+
+  it("shares round-win points between tied winners in split mode", () => {
+    const tied = round([hole(1, ["a"]), hole(2, ["b"])]);
+    expect(getRoundWinPoints(tied, rules({ roundWinPoints: 3, tieMode: "split" }))).toEqual({ a: 1.5, b: 1.5 });
+  });
+});
+
+describe("getSeasonStandings", () => {
+  it("totals hole points, round wins and aces across rounds", () => {
+    const standings = getSeasonStandings(
+      [
+        round([hole(1, ["a"], { holeInOnePlayerIds: ["a"] }), hole(2, ["a"])], { id: "r1" }),
+        round([hole(1, ["b"])], { id: "r2" }),
+      ],
+      rules({ roundWinPoints: 2 })
+    );
+
+    expect(standings[0]).toEqual({ playerId: "a", points: 4, holesWon: 2, holeInOnes: 1, roundWins: 1 });
+    expect(standings[1]).toEqual({ playerId: "b", points: 3, holesWon: 1, holeInOnes: 0, roundWins: 1 });
+  });
+
+  it("leaves abandoned rounds out", () => {
+    const standings = getSeasonStandings([
+      round([hole(1, ["a"])], { id: "r1" }),
+      round([hole(1, ["b"]), hole(2, ["b"])], { id: "r2", completedAt: undefined, abandonedAt: "2025-06-02T12:00:00.000Z" }),
+    ]);
+    expect(standings.find(s => s.playerId === "b")?.points).toBe(0);
+    expect(standings.find(s => s.playerId === "a")?.points).toBe(1);
+  });
+});
+
+describe("formatPoints", () => {
+  it("keeps whole numbers and rounds fractions to one decimal", () => {
+    expect(formatPoints(4)).toBe("4");
+    expect(formatPoints(1 / 3)).toBe("0.3");
+  });
+});
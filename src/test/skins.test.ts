@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import { calculateSkins, getSkinValue } from "@/lib/skins";
+import { hole, round } from "@/test/fixtures";
+
+const skinsRound = (winners: Array<[number, string[]]>) =>
+  round(winners.map(([holeNumber, ids]) => hole(holeNumber, ids)), { playerIds: ["a", "b", "c"], format: "skins" });
+
+describe("calculateSkins", () => {
+  it("carries tied holes over to the next outright winner", () => {
+    const result = calculateSkins(skinsRound([[1, ["a", "b"]], [2, []], [3, ["c"]], [4, ["a"]]]));
+    expect(result.holes).toEqual([
+      { holeNumber: 1, value: 1, carriedOver: true },
+      { holeNumber: 2, value: 2, carriedOver: true },
+      { holeNumber: 3, value: 3, winnerId: "c", carriedOver: false },
+      { holeNumber: 4, value: 1, winnerId: "a", carriedOver: false },
+    ]);
+    expect(result.skins).toEqual({ a: 1, b: 0, c: 3 });
+    expect(result.carryOver).toBe(0);
+  });
+
+  it("plays holes in order and keeps skins left in play after the last one", () => {
+    const result = calculateSkins(skinsRound([[2, ["a", "c"]], [1, ["b"]]]));
+    expect(result.holes.map(h => h.holeNumber)).toEqual([1, 2]);
+    expect(result.skins).toEqual({ a: 0, b: 1, c: 0 });
+    expect(result.carryOver).toBe(1);
+  });
+
+  it("awards skins to teams in team rounds", () => {
+    const teamRound = round([hole(1, ["a", "b"], { winnerTeamIds: ["t1"] })], {
+      playerIds: ["a", "b", "c"],
+      format: "skins",
+      teams: [
+        { id: "t1", name: "Team 1", playerIds: ["a", "b"] },
+        { id: "t2", name: "Team 2", playerIds: ["c"] },
+      ],
+    });
+    expect(calculateSkins(teamRound).skins).toEqual({ t1: 1, t2: 0 });
+  });
+});
+
+describe("getSkinValue", () => {
+  it("counts the skins carried into a hole", () => {
+    const played = skinsRound([[1, ["a", "b"]], [2, ["a", "c"]], [3, ["b"]]]);
+    expect([1, 2, 3, 4].map(n => getSkinValue(played, n))).toEqual([1, 2, 3, 1]);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { HoleResult, Round } from "@/types/golf";
+import { calculateHoleStablefordPoints, getSideStablefordTotals, getStablefordPoints } from "@/lib/stableford";
+import { getRoundPoints, getRoundWinners } from "@/lib/scoring";
+import { hole as baseHole, round as baseRound } from "@/test/fixtures";
+
+const round = (holeResults: HoleResult[], overrides: Partial<Round> = {}) =>
+  baseRound(holeResults, { format: "stableford", ...overrides });
+
+const hole = (holeNumber: number, stablefordPoints: Record<string, number>) =>
+  baseHole(holeNumber, [], { par: 4, stablefordPoints });
+
+describe("getStablefordPoints", () => {
+  it("scores the standard table from par", () => {
+    expect([7, 6, 5, 4, 3, 2, 1].map(strokes => getStablefordPoints(strokes, 4))).toEqual([0, 0, 1, 2, 3, 4, 5]);
+  });
+
+  it("scores the modified table with penalties", () => {
+    expect([7, 6, 5, 4, 3, 2, 1].map(strokes => getStablefordPoints(strokes, 4, "modified"))).toEqual([-3, -3, -1, 0, 2, 5, 8]);
+  });
+});
+
+describe("calculateHoleStablefordPoints", () => {
+  it("uses net strokes when the round plays off handicaps", () => {
+    const netRound = round([], { netScoring: true, handicaps: { a: 18, b: 0 } });
+    const result = baseHole(1, [], { par: 4, strokes: { a: 5, b: 5 } });
+    expect(calculateHoleStablefordPoints(netRound, undefined, result)).toEqual({ a: 2, b: 1 });
+  });
+
+  it("needs a par to score the hole", () => {
+    const result = baseHole(1, [], { strokes: { a: 4 } });
+    expect(calculateHoleStablefordPoints(round([]), undefined, result)).toEqual({});
+  });
+});
+
+describe("Stableford rounds", () => {
+  it("totals points and picks the highest as round winner", () => {
+    const played = round([hole(1, { a: 2, b: 3 }), hole(2, { a: 2, b: 0 })]);
+    expect(getRoundPoints(played)).toEqual({ a: 4, b: 3 });
+    expect(getRoundWinners(played)).toEqual(["a"]);
+  });
+
+  it("still has a winner when modified totals are negative", () => {
+    expect(getRoundWinners(round([hole(1, { a: -1, b: -3 })]))).toEqual(["a"]);
+  });
+
+  it("takes the best member's points on each hole for better-ball teams", () => {
+    const teamRound = round(
+      [hole(1, { a: 3, b: 1, c: 2, d: 2 }), hole(2, { a: 0, b: 2, c: 2, d: 1 })],
+      {
+        playerIds: ["a", "b", "c", "d"],
+        teams: [
+          { id: "t1", name: "Team 1", playerIds: ["a", "b"] },
+          { id: "t2", name: "Team 2", playerIds: ["c", "d"] },
+        ],
+        teamFormat: "betterBall",
+      }
+    );
+    expect(getSideStablefordTotals(teamRound)).toEqual({ t1: 5, t2: 4 });
+  });
+});
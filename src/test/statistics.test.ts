@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { HoleResult, Round } from "@/types/golf";
+import { getCourseRankings, getPlayerStatistics, getSeasonSummaries } from "@/lib/statistics";
+import { course, hole, round as baseRound, season } from "@/test/fixtures";
+
+// Round rN is played on the Nth of June
+const round = (id: string, holeResults: HoleResult[], overrides: Partial<Round> = {}) => baseRound(holeResults, {
+  id,
+  startedAt: `2025-06-0${id.slice(-1)}T10:00:00.000Z`,
+  completedAt: `2025-06-0${id.slice(-1)}T14:00:00.000Z`,
+  ...overrides,
+});
+
+const seasons = [
+  season("s1"),
+  season("s2", { rules: { pointsPerHole: 2, tieMode: "full", holeInOneBonus: 0, roundWinPoints: 5 } }),
+];
+
+const rounds = [
+  round("r1", [hole(1, ["a"]), hole(2, ["a"], { holeInOnePlayerIds: ["a"] }), hole(3, ["b"])]),
+  round("r2", [hole(1, ["b"]), hole(2, ["b"])], { seasonId: "s2", courseId: "c2" }),
+  round("r3", [hole(1, ["a"]), hole(2, ["a"])], { completedAt: undefined }),
+];
+
+describe("getPlayerStatistics", () => {
+  it("scores each round with its own season's rules and skips rounds in progress", () => {
+    const [first, second] = getPlayerStatistics(["a", "b"], rounds, seasons);
+
+    expect(first).toMatchObject({ playerId: "b", points: 10, totalWins: 1, totalHolesWon: 3, roundsPlayed: 2 });
+    expect(second).toMatchObject({ playerId: "a", points: 2, totalWins: 1, totalHolesWon: 2, holeInOnes: 1, roundsPlayed: 2 });
+  });
+
+  it("keeps a per-round history with hole-in-ones", () => {
+    const a = getPlayerStatistics(["a"], rounds, seasons)[0];
+    expect(a.history).toEqual([
+      { roundId: "r1", courseId: "c1", score: 2, date: rounds[0].startedAt, holeInOnes: 1 },
+      { roundId: "r2", courseId: "c2", score: 0, date: rounds[1].startedAt, holeInOnes: 0 },
+    ]);
+  });
+
+  it("ignores players outside the requested list", () => {
+    expect(getPlayerStatistics(["a"], rounds, seasons).map(s => s.playerId)).toEqual(["a"]);
+  });
+});
+
+describe("getCourseRankings", () => {
+  it("ranks each player's best completed round per course", () => {
+    const [c1, c2] = getCourseRankings([course("c1"), course("c2")], rounds, seasons);
+
+    expect(c1.roundsPlayed).toBe(1);
+    expect(c1.rankings.map(r => [r.playerId, r.score])).toEqual([["a", 2], ["b", 1]]);
+    expect(c2.rankings.map(r => [r.playerId, r.score])).toEqual([["b", 4]]);
+  });
+});
+
+describe("getSeasonSummaries", () => {
+  it("counts only completed rounds towards standings", () => {
+    const [s1, s2] = getSeasonSummaries(seasons, rounds);
+
+    expect(s1.roundsPlayed).toBe(1);
+    expect(s1.standings.map(s => [s.playerId, s.points])).toEqual([["a", 2], ["b", 1]]);
+    expect(s2.standings.map(s => [s.playerId, s.points])).toEqual([["b", 9]]);
+  });
+});
@@ -0,0 +1,128 @@
+import "fake-indexeddb/auto";
+import { IDBFactory } from "fake-indexeddb";
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { runMigrations } from "@/lib/migrations";
+import { SCHEMA_VERSION } from "@/lib/schema";
+import { hole, player, round } from "@/test/fixtures";
+
+// The storage module keeps its database connection, so each test gets a fresh
+// in-memory IndexedDB and a fresh copy of the module
+let storage: typeof import("@/lib/storage");
+
+beforeEach(async () => {
+  globalThis.indexedDB = new IDBFactory();
+  localStorage.clear();
+  vi.resetModules();
+  storage = await import("@/lib/storage");
+});
+
+const putRaw = async (store: string, records: unknown[]) => {
+  const db = await storage.openGolfDatabase();
+  const transaction = db.transaction(store, "readwrite");
+  records.forEach(record => transaction.objectStore(store).put(record));
+  await new Promise(resolve => { transaction.oncomplete = resolve; });
+};
+
+describe("diffRecords", () => {
+  it("writes only replaced records and deletes missing ones", () => {
+    const a = player("a");
+    const b = player("b");
+    const renamed = { ...b, name: "Bea" };
+    expect(storage.diffRecords([a, b, player("c")], [a, renamed])).toEqual({ put: [renamed], remove: ["c"] });
+  });
+});
+
+describe("persistStoreChanges", () => {
+  it("stores added and changed records and deletes removed ones", async () => {
+    const [a, b] = [player("a"), player("b")];
+    await storage.persistStoreChanges("players", [], [a, b]);
+    await storage.persistStoreChanges("players", [a, b], [{ ...a, name: "Alice" }]);
+
+    const { data } = await storage.loadGolfData();
+    expect(data.players).toEqual([{ ...a, name: "Alice" }]);
+  });
+
+  it("finds rounds by season and course", async () => {
+    await storage.persistStoreChanges("rounds", [], [round([], { id: "r1" }), round([], { id: "r2", seasonId: "s2" })]);
+    expect((await storage.getRoundsBySeason("s2")).map(r => r.id)).toEqual(["r2"]);
+    expect(await storage.getRoundsByCourse("c1")).toHaveLength(2);
+  });
+});
+
+describe("loadGolfData", () => {
+  it("moves data saved in localStorage over once", async () => {
+    localStorage.setItem(storage.LEGACY_STORAGE_KEYS.players, JSON.stringify([player("a")]));
+
+    expect((await storage.loadGolfData()).data.players).toEqual([player("a")]);
+    expect(localStorage.getItem(storage.LEGACY_STORAGE_KEYS.players)).toBeNull();
+  });
+
+  it("quarantines legacy data it can't read instead of dropping it", async () => {
+    localStorage.setItem(storage.LEGACY_STORAGE_KEYS.players, JSON.stringify([player("a"), { name: "No id" }]));
+    localStorage.setItem(storage.LEGACY_STORAGE_KEYS.rounds, "[{\"id\":");
+
+    const { data, quarantine } = await storage.loadGolfData();
+    expect(data.players).toEqual([player("a")]);
+    expect(quarantine).toHaveLength(2);
+    expect(quarantine).toEqual(expect.arrayContaining([
+      expect.objectContaining({ store: "players", record: { name: "No id" } }),
+      expect.objectContaining({ store: "rounds", record: "[{\"id\":" }),
+    ]));
+    expect(localStorage.getItem(storage.LEGACY_STORAGE_KEYS.rounds)).toBeNull();
+  });
+
+  it("upgrades unversioned data and records the schema version", async () => {
+    // Early versions saved holes without a hole-in-one list
+    await putRaw("rounds", [{ ...round(), holeResults: [{ holeNumber: 1, winnerIds: ["a"] }] }]);
+
+    const { data } = await storage.loadGolfData();
+    expect(data.rounds[0].holeResults).toEqual([hole(1, ["a"])]);
+    expect(await storage.readMeta("schemaVersion")).toBe(SCHEMA_VERSION);
+  });
+
+  it("quarantines invalid records instead of loading them", async () => {
+    await putRaw("players", [player("a"), { id: "b", name: 42 }]);
+
+    const { data, quarantine } = await storage.loadGolfData();
+    expect(data.players.map(p => p.id)).toEqual(["a"]);
+    expect(quarantine).toMatchObject([{ store: "players", record: { id: "b", name: 42 } }]);
+    expect((await storage.loadGolfData()).quarantine).toHaveLength(1);
+
+    await storage.clearQuarantine();
+    expect((await storage.loadGolfData()).quarantine).toEqual([]);
+  });
+});
+
+describe("useGolfData", () => {
+  it("changes nothing while the stored data is from a newer version of the app", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    await putRaw("players", [player("a")]);
+    await storage.writeMeta("schemaVersion", SCHEMA_VERSION + 1);
+    const { useGolfData } = await import("@/hooks/useGolfData");
+
+    const { result } = renderHook(() => useGolfData());
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    expect(result.current.newerSchemaVersion).toBe(SCHEMA_VERSION + 1);
+
+    act(() => {
+      result.current.addPlayer("Bob");
+    });
+    expect(result.current.players).toEqual([]);
+    const db = await storage.openGolfDatabase();
+    const stored = await new Promise(resolve => {
+      const request = db.transaction("players").objectStore("players").getAll();
+      request.onsuccess = () => resolve(request.result);
+    });
+    expect(stored).toEqual([player("a")]);
+    vi.restoreAllMocks();
+  });
+});
+
+describe("runMigrations", () => {
+  it("refuses data from a newer version of the app", () => {
+    const empty = { players: [], seasons: [], courses: [], rounds: [] };
+    expect(() => runMigrations(empty, SCHEMA_VERSION + 1)).toThrow(/newer|supports/);
+    expect(runMigrations(empty, SCHEMA_VERSION)).toBe(empty);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import { deriveWinnersFromStrokes, getRoundGrossScores, getStrokePlayStats, hasStrokes } from "@/lib/strokes";
+import { COMPLETED_AT, course, hole, round } from "@/test/fixtures";
+
+const strokes = (holeNumber: number, counts: Record<string, number>) => hole(holeNumber, [], { strokes: counts });
+
+describe("deriveWinnersFromStrokes", () => {
+  it("picks every player on the lowest count and ignores blanks", () => {
+    expect(deriveWinnersFromStrokes({ a: 4, b: 3, c: 3, d: 0 })).toEqual(["b", "c"]);
+    expect(deriveWinnersFromStrokes({ a: 0 })).toEqual([]);
+  });
+});
+
+describe("getRoundGrossScores", () => {
+  it("adds up strokes per player over the holes they have counts for", () => {
+    const played = round([strokes(1, { a: 4, b: 5 }), strokes(2, { a: 3 }), hole(3, ["a"])]);
+    expect(hasStrokes(played.holeResults[2])).toBe(false);
+    expect(getRoundGrossScores(played)).toEqual({ a: { strokes: 7, holes: 2 }, b: { strokes: 5, holes: 1 } });
+  });
+});
+
+describe("getStrokePlayStats", () => {
+  const rounds = [
+    round([strokes(1, { a: 4, b: 5 }), strokes(2, { a: 5, b: 5 })], { id: "r1", completedAt: COMPLETED_AT }),
+    round([strokes(1, { a: 3, b: 6 })], { id: "r2", completedAt: COMPLETED_AT }),
+    round([strokes(1, { a: 9, b: 9 })], { id: "r3" }),
+    round([strokes(1, { a: 4 })], { id: "r4", completedAt: COMPLETED_AT }),
+  ];
+
+  it("averages completed rounds with a count on every hole", () => {
+    const [a, b] = getStrokePlayStats(rounds, ["a", "b"]);
+    expect(a).toMatchObject({ playerId: "a", roundsPlayed: 3, totalStrokes: 16, holesPlayed: 4, averagePerHole: 4 });
+    expect(a.bestRound).toMatchObject({ roundId: "r2", strokes: 3, holes: 1 });
+    expect(b).toMatchObject({ playerId: "b", roundsPlayed: 2, totalStrokes: 16, averagePerRound: 8 });
+  });
+
+  it("takes handicap strokes off for the net average", () => {
+    const net = round([strokes(1, { a: 5 }), strokes(2, { a: 5 })], {
+      completedAt: COMPLETED_AT,
+      handicaps: { a: 9 },
+    });
+    const [a] = getStrokePlayStats([net], ["a"], [course("c1")]);
+    expect(a).toMatchObject({ totalStrokes: 10, netTotalStrokes: 8, netAveragePerRound: 8 });
+  });
+
+  it("ranks on net strokes when asked", () => {
+    const played = round([strokes(1, { a: 4, b: 5 })], { completedAt: COMPLETED_AT, handicaps: { b: 18 } });
+    expect(getStrokePlayStats([played], ["a", "b"], [course("c1")]).map(s => s.playerId)).toEqual(["a", "b"]);
+    expect(getStrokePlayStats([played], ["a", "b"], [course("c1")], "net").map(s => s.playerId)).toEqual(["b", "a"]);
+  });
+});
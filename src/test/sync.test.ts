@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest";
+import { GolfData, Player } from "@/types/golf";
+import { applyChanges, forgetRecords, HistoryCommand } from "@/lib/history";
+import { createSyncMessage, getWinningChanges, isNewerStamp, SyncStamp, TAB_ID } from "@/lib/sync";
+import { player } from "@/test/fixtures";
+
+const data = (players: Player[]): GolfData => ({ players, seasons: [], courses: [], rounds: [] });
+
+const command = (id: string, recordId: string): HistoryCommand => ({
+  id,
+  label: "Edit player",
+  timestamp: "2025-06-01T10:00:00.000Z",
+  changes: [{ store: "players", id: recordId, after: player(recordId, "Changed") }],
+});
+
+describe("isNewerStamp", () => {
+  it("orders by time, then by tab id", () => {
+    expect(isNewerStamp({ at: 2, tabId: "a" }, { at: 1, tabId: "b" })).toBe(true);
+    expect(isNewerStamp({ at: 1, tabId: "b" }, { at: 1, tabId: "a" })).toBe(true);
+    expect(isNewerStamp({ at: 1, tabId: "a" }, { at: 1, tabId: "b" })).toBe(false);
+    expect(isNewerStamp({ at: 1, tabId: "a" }, undefined)).toBe(true);
+  });
+});
+
+describe("getWinningChanges", () => {
+  const message = {
+    at: 10,
+    tabId: "other-tab",
+    changes: [
+      { store: "players" as const, id: "p1", after: player("p1", "Alice") },
+      { store: "players" as const, id: "p2", after: player("p2", "Bob") },
+    ],
+  };
+
+  it("keeps changes newer than this tab's last write to the record", () => {
+    const stamps = new Map<string, SyncStamp>([["players:p1", { at: 20, tabId: TAB_ID }]]);
+    expect(getWinningChanges(message, stamps).map(change => change.id)).toEqual(["p2"]);
+  });
+
+  it("ignores this tab's own messages", () => {
+    expect(getWinningChanges(createSyncMessage(message.changes), new Map())).toEqual([]);
+  });
+});
+
+describe("applyChanges", () => {
+  it("puts and removes records", () => {
+    const next = applyChanges(data([player("p1", "Alice"), player("p2", "Bob")]), [
+      { store: "players", id: "p1", after: player("p1", "Alicia") },
+      { store: "players", id: "p2" },
+      { store: "players", id: "p3", after: player("p3", "Cara") },
+    ]);
+    expect(next.players.map(p => p.name)).toEqual(["Alicia", "Cara"]);
+  });
+});
+
+describe("forgetRecords", () => {
+  it("drops commands that touch records changed elsewhere", () => {
+    const history = { past: [command("c1", "p1"), command("c2", "p2")], future: [command("c3", "p1")] };
+    const next = forgetRecords(history, [{ store: "players", id: "p1" }]);
+    expect(next.past.map(c => c.id)).toEqual(["c2"]);
+    expect(next.future).toEqual([]);
+  });
+});
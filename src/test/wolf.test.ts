@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import { HoleResult, Round } from "@/types/golf";
+import { getWolfId, getWolfOutcome, getWolfPoints, getWolfRecords } from "@/lib/wolf";
+import { getRoundPoints } from "@/lib/scoring";
+import { COMPLETED_AT, hole as baseHole, round as baseRound } from "@/test/fixtures";
+
+const players = ["a", "b", "c", "d"];
+
+const round = (holeResults: HoleResult[], overrides: Partial<Round> = {}) =>
+  baseRound(holeResults, { playerIds: players, format: "wolf", completedAt: COMPLETED_AT, ...overrides });
+
+const hole = (holeNumber: number, winnerIds: string[], partnerId?: string) =>
+  baseHole(holeNumber, winnerIds, { wolf: { wolfId: players[(holeNumber - 1) % players.length], partnerId } });
+
+describe("wolf rotation", () => {
+  it("rotates the wolf through the players in order", () => {
+    expect([1, 2, 3, 4, 5].map(n => getWolfId(round([]), n))).toEqual(["a", "b", "c", "d", "a"]);
+  });
+});
+
+describe("getWolfOutcome", () => {
+  it("halves the hole when both sides share the low score", () => {
+    expect(getWolfOutcome(hole(1, ["a", "b"], "b"))).toBe("wolf");
+    expect(getWolfOutcome(hole(1, ["a", "c"]))).toBe("halved");
+    expect(getWolfOutcome(hole(1, ["c"], "b"))).toBe("opponents");
+  });
+
+  it("needs a wolf choice and a winner", () => {
+    expect(getWolfOutcome(baseHole(1, ["a"]))).toBeUndefined();
+    expect(getWolfOutcome(hole(1, []))).toBeUndefined();
+  });
+});
+
+describe("wolf points", () => {
+  it("scores partnered and lone wolf holes", () => {
+    const played = round([
+      hole(1, ["b"], "b"), // a+b win: 2 each
+      hole(2, ["a"], "a"), // b+a win: 2 each
+      hole(3, ["c"]), // lone c wins: 4
+      hole(4, ["a"]), // lone d loses: 1 each to a, b, c
+    ]);
+    expect(getWolfPoints(played)).toEqual({ a: 5, b: 5, c: 5, d: 0 });
+  });
+
+  it("scales wolf points by the season's points per hole", () => {
+    const played = round([hole(1, ["c"], "b")]);
+    expect(getRoundPoints(played, { pointsPerHole: 2, tieMode: "full", holeInOneBonus: 0, roundWinPoints: 0 }))
+      .toEqual({ a: 0, b: 0, c: 6, d: 6 });
+  });
+});
+
+describe("getWolfRecords", () => {
+  it("tracks lone wolf success from completed rounds", () => {
+    const rounds = [
+      round([hole(1, ["a"]), hole(5, ["b"]), hole(9, ["a", "c"]), hole(2, ["b"], "c")]),
+      round([hole(1, ["a"])], { id: "r2", completedAt: undefined }),
+    ];
+    const [a, b] = getWolfRecords(rounds, players);
+    expect(a).toMatchObject({ playerId: "a", holesAsWolf: 3, loneWolf: 3, loneWolfWon: 1, loneWolfLost: 1 });
+    expect(b).toMatchObject({ playerId: "b", holesAsWolf: 1, partnered: 1, partneredWon: 1, loneWolf: 0 });
+  });
+});
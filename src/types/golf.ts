@@ -7,21 +7,62 @@ export interface Player {
   createdAt: string;
 }
 
+// How a season awards points. Tied hole or round winners either each get the
+// full points or share them.
+export interface ScoringRules {
+  pointsPerHole: number;
+  tieMode: 'full' | 'split';
+  holeInOneBonus: number;
+  roundWinPoints: number;
+  stableford?: StablefordTable; // Season plays Stableford: rounds default to it
+}
+
+// Money riding on each bet of a round; zero means that bet isn't played.
+// Each player on the losing side pays the stake.
+export interface Stakes {
+  perHole: number; // Hole won outright (holes and match play)
+  perSkin: number;
+  perNassauBet: number; // Each Nassau bet and press
+  perPoint: number; // Difference in Stableford or Wolf points
+}
+
 export interface Season {
   id: string;
   name: string;
   playerIds: string[];
+  rules?: ScoringRules; // Defaults to one point per hole won
+  stakes?: Stakes; // Side bets, when the season plays for money
   status: 'active' | 'completed';
   createdAt: string;
   completedAt?: string;
 }
 
+export interface CourseTee {
+  id: string;
+  name: string; // e.g. "White", "Yellow"
+}
+
+export interface CourseHole {
+  number: number;
+  par: number;
+  strokeIndex?: number; // 1 = hardest hole
+  distances: Record<string, number>; // Distance per tee id
+}
+
+export type DistanceUnit = 'yards' | 'meters';
+
 export interface Course {
   id: string;
   name: string;
-  location?: string;
+  location?: string; // Address
+  coordinates?: { lat: number; lng: number };
   numberOfCourses: number;
   holesPerCourse: number;
+  tees?: CourseTee[];
+  holes?: CourseHole[];
+  distanceUnit?: DistanceUnit;
+  courseRating?: number; // Expected score of a scratch golfer
+  slopeRating?: number; // Relative difficulty for a bogey golfer (113 = standard)
   createdAt: string;
 }
 
@@ -29,6 +70,65 @@ export interface HoleResult {
   holeNumber: number;
   winnerIds: string[]; // Multiple winners allowed
   holeInOnePlayerIds: string[];
+  strokes?: Record<string, number>; // Stroke count per player (stroke play)
+  winnerTeamIds?: string[]; // Team rounds: winning teams (winnerIds holds their members)
+  teamStrokes?: Record<string, number>; // Scramble rounds: stroke count per team
+  par?: number; // Stableford rounds: par the hole was scored against
+  stablefordPoints?: Record<string, number>; // Stableford rounds: points per player (or scramble team)
+  wolf?: WolfChoice; // Wolf rounds: the wolf's pick for this hole
+  updatedAt?: string; // When the hole was last saved; decides between devices saving it at once
+}
+
+// The wolf's partner for a hole; no partner means the wolf went alone
+export interface WolfChoice {
+  wolfId: string;
+  partnerId?: string;
+}
+
+export interface Team {
+  id: string;
+  name: string;
+  playerIds: string[];
+}
+
+// Better ball: everyone plays their own ball and the team takes the best score.
+// Scramble: the team plays one ball and records a single score.
+export type TeamFormat = 'betterBall' | 'scramble';
+
+// How hole results are turned into a round result
+export type GameFormat = 'holes' | 'skins' | 'match' | 'stableford' | 'wolf' | 'nassau';
+
+// Standard: 2 points for par, 1 more per stroke under. Modified: tour table with negative points.
+export type StablefordTable = 'standard' | 'modified';
+
+// Whether leaderboards count strokes as played or after handicap allowances
+export type ScoreBasis = 'gross' | 'net';
+
+// Outcome of a match play round, e.g. "3&2", "1 UP" or "Halved"
+export interface MatchResult {
+  winnerId?: string; // Winning player or team id; undefined when halved
+  result: string;
+}
+
+// A run of holes played as one Nassau bet, e.g. the front nine
+export interface NassauSegment {
+  startHole: number;
+  endHole: number;
+}
+
+export interface NassauSettings {
+  segments: NassauSegment[]; // The nines, taken from the course when the round starts
+  presses: boolean; // Start a press when a side goes two down
+}
+
+// A change made to a hole after the round was finished
+export interface RoundCorrection {
+  id: string;
+  holeNumber: number;
+  before?: HoleResult; // Undefined when the hole had no result
+  after: HoleResult;
+  note?: string;
+  correctedAt: string;
 }
 
 export interface Round {
@@ -37,14 +137,45 @@ export interface Round {
   courseId: string;
   playerIds: string[];
   holeResults: HoleResult[];
+  handicaps?: Record<string, number>; // Course handicap per player when the round started
+  netScoring?: boolean; // Hole winners are decided on net strokes
+  format?: GameFormat; // Defaults to 'holes' (every hole winner scores)
+  teams?: Team[]; // Hole results are recorded per team when set
+  teamFormat?: TeamFormat;
+  matchResult?: MatchResult; // Set when a match play round is finished
+  stablefordTable?: StablefordTable; // Stableford rounds
+  nassau?: NassauSettings; // Nassau rounds
+  stakes?: Stakes; // The season's stakes when the round started
+  corrections?: RoundCorrection[]; // Audit trail of edits to the finished round
+  holeCount?: number; // Holes planned when the round started
   startedAt: string;
   completedAt?: string;
+  abandonedAt?: string; // Stopped before the end; never counts towards standings
+  abandonReason?: string;
+}
+
+export interface RoundHistoryEntry {
+  roundId: string;
+  courseId: string;
+  score: number;
+  date: string;
+  holeInOnes: number;
 }
 
 export interface PlayerStats {
   playerId: string;
+  points: number;
   totalWins: number;
   totalHolesWon: number;
   holeInOnes: number;
   roundsPlayed: number;
+  history: RoundHistoryEntry[];
+}
+
+// All persisted tracker data, keyed by entity collection
+export interface GolfData {
+  players: Player[];
+  seasons: Season[];
+  courses: Course[];
+  rounds: Round[];
 }
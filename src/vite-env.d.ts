@@ -1 +1,8 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SYNC_SERVER_URL?: string; // Multi-device sync server, e.g. http://192.168.1.20:8787
+  readonly VITE_MAP_PROVIDER?: string; // 'google', 'osm' or 'mock'
+  readonly VITE_GOOGLE_MAPS_API_KEY?: string;
+  readonly VITE_GEOCODER_URL?: string; // Nominatim-compatible search for the 'osm' provider
+}
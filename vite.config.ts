@@ -1,8 +1,29 @@
-import { defineConfig } from "vite";
+import { defineConfig, Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
+import { createHash } from "crypto";
+import { readFile, writeFile } from "fs/promises";
 import { componentTagger } from "lovable-tagger";
 
+// Writes the built files and a version for them into the service worker (public/sw.js),
+// so each build installs a new worker that caches its own files
+const precacheManifest = (): Plugin => ({
+  name: "precache-manifest",
+  apply: "build",
+  async writeBundle({ dir }, bundle) {
+    const files = Object.values(bundle).filter(file => !file.fileName.endsWith(".map"));
+    const hash = createHash("sha256");
+    files.forEach(file => hash.update(file.fileName).update(file.type === "chunk" ? file.code : file.source));
+    const urls = files.map(file => `/${file.fileName}`).sort();
+
+    const swFile = path.resolve(dir ?? "dist", "sw.js");
+    const source = await readFile(swFile, "utf8");
+    await writeFile(swFile, source
+      .replace(/const BUILD_VERSION = .*;/, `const BUILD_VERSION = '${hash.digest("hex").slice(0, 12)}';`)
+      .replace(/const PRECACHE_URLS = .*;/, `const PRECACHE_URLS = ${JSON.stringify(urls)};`));
+  },
+});
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
@@ -12,7 +33,7 @@ export default defineConfig(({ mode }) => ({
       overlay: false,
     },
   },
-  plugins: [react(), mode === "development" && componentTagger()].filter(Boolean),
+  plugins: [react(), precacheManifest(), mode === "development" && componentTagger()].filter(Boolean),
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),